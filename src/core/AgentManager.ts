@@ -2,9 +2,13 @@ import { spawn, ChildProcess } from 'node:child_process';
 import { existsSync } from 'node:fs';
 import { EventEmitter } from 'node:events';
 import { log, logError } from '../utils/Logger';
+import { terminateProcessTree } from '../utils/ProcessTree';
 import { sendEvent, sendError } from '../utils/TelemetryManager';
 import type { AgentConfigEntry } from '../config/AgentConfig';
 
+/** How long a killed agent gets to exit after SIGTERM before SIGKILL. */
+const KILL_GRACE_MS = 5000;
+
 /**
  * Escape a single argument for safe inclusion in a shell command string.
  * Wraps in single quotes, escaping any embedded single quotes.
@@ -104,6 +108,9 @@ export class AgentManager extends EventEmitter {
         stdio: ['pipe', 'pipe', 'pipe'],
         env: { ...process.env, ...(config.env || {}) },
         cwd: cwd || undefined,
+        // Lead a process group, so killing the agent also reaches whatever
+        // it started behind the shell wrapper (npx, MCP servers, ...).
+        detached: true,
       });
     })();
 
@@ -135,28 +142,14 @@ export class AgentManager extends EventEmitter {
   }
 
   /**
-   * Kill an agent process.
+   * Kill an agent process and every process it started.
    */
   killAgent(agentId: string): boolean {
     const instance = this.agents.get(agentId);
     if (!instance) {
       return false;
     }
-
-    log(`Killing agent "${instance.name}" (${agentId})`);
-
-    try {
-      instance.process.kill('SIGTERM');
-      // Force kill after 5s if still running
-      setTimeout(() => {
-        if (instance.process.exitCode === null) {
-          instance.process.kill('SIGKILL');
-        }
-      }, 5000);
-    } catch (e) {
-      logError(`Failed to kill agent ${agentId}`, e);
-    }
-
+    void this.terminate(instance);
     this.agents.delete(agentId);
     return true;
   }
@@ -176,16 +169,31 @@ export class AgentManager extends EventEmitter {
   }
 
   /**
-   * Kill all running agents. Called on extension deactivate.
+   * Kill all running agents in parallel. Called on extension deactivate,
+   * which waits until they are gone and passes a shorter `graceMs`.
    */
-  killAll(): void {
-    for (const [id] of this.agents) {
-      this.killAgent(id);
-    }
+  async killAll(graceMs = KILL_GRACE_MS): Promise<void> {
+    const instances = [...this.agents.values()];
+    this.agents.clear();
+    await Promise.all(instances.map(instance => this.terminate(instance, graceMs)));
   }
 
   dispose(): void {
-    this.killAll();
+    void this.killAll();
     this.removeAllListeners();
   }
+
+  /** SIGTERM the agent's process tree, then SIGKILL what is left after `graceMs`. */
+  private async terminate(instance: AgentInstance, graceMs = KILL_GRACE_MS): Promise<void> {
+    log(`Killing agent "${instance.name}" (${instance.id})`);
+    const { pid, exitCode, signalCode } = instance.process;
+    if (pid === undefined) {
+      return;
+    }
+    try {
+      await terminateProcessTree(pid, { graceMs, leaderExited: exitCode !== null || signalCode !== null });
+    } catch (e) {
+      logError(`Failed to kill agent ${instance.id}`, e);
+    }
+  }
 }
@@ -0,0 +1,173 @@
+import * as vscode from 'vscode';
+
+import { readCurrentText, writeFileContent } from '../handlers/FileSystemHandler';
+import { log } from '../utils/Logger';
+
+/** A file as it was before the first agent write of a turn. */
+export interface FileSnapshot {
+  uri: vscode.Uri;
+  /** File text before the write, or `null` if the agent created the file. */
+  before: string | null;
+}
+
+/**
+ * One prompt turn of a session and the files the agent wrote during it.
+ */
+export interface Turn {
+  sessionId: string;
+  /** 1-based, counts the session's prompts; never reused after a revert. */
+  index: number;
+  /** The prompt text (truncated), for labels. */
+  prompt: string;
+  startedAt: number;
+  /** Snapshots keyed by `uri.toString()`. */
+  files: Map<string, FileSnapshot>;
+}
+
+const MAX_TURNS_PER_SESSION = 50;
+const MAX_PROMPT_LABEL = 80;
+
+/**
+ * Per-turn checkpoints of agent file changes. Every file is snapshotted
+ * before the first write to it in a turn, so the workspace can be rolled
+ * back to the state before any turn of a live session.
+ */
+export class Checkpoints {
+  private turns: Map<string, Turn[]> = new Map();
+  /** Turns with a `session/prompt` in flight, by session. */
+  private openTurns: Map<string, Turn> = new Map();
+  private turnCounters: Map<string, number> = new Map();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  /** Fires when a turn records a file or turns are reverted / dropped. */
+  readonly onDidChange = this._onDidChange.event;
+
+  /** Start recording a new turn for `sessionId`. */
+  beginTurn(sessionId: string, prompt: string): Turn {
+    const index = (this.turnCounters.get(sessionId) ?? 0) + 1;
+    this.turnCounters.set(sessionId, index);
+    const turn: Turn = {
+      sessionId,
+      index,
+      prompt: prompt.length > MAX_PROMPT_LABEL ? prompt.slice(0, MAX_PROMPT_LABEL) + '…' : prompt,
+      startedAt: Date.now(),
+      files: new Map(),
+    };
+    const turns = this.turns.get(sessionId) ?? [];
+    turns.push(turn);
+    if (turns.length > MAX_TURNS_PER_SESSION) {
+      turns.shift();
+    }
+    this.turns.set(sessionId, turns);
+    this.openTurns.set(sessionId, turn);
+    return turn;
+  }
+
+  endTurn(sessionId: string): void {
+    this.openTurns.delete(sessionId);
+  }
+
+  isTurnOpen(sessionId: string): boolean {
+    return this.openTurns.has(sessionId);
+  }
+
+  /**
+   * Snapshot `uri` before the agent of `sessionId` writes it, unless the
+   * current turn already has it. Writes outside a prompt turn go to the
+   * session's latest turn.
+   */
+  async recordBeforeWrite(sessionId: string, uri: vscode.Uri): Promise<void> {
+    const turn = this.openTurns.get(sessionId)
+      ?? this.turns.get(sessionId)?.at(-1)
+      ?? this.beginTurn(sessionId, '');
+    const key = uri.toString();
+    if (turn.files.has(key)) {
+      return;
+    }
+    turn.files.set(key, { uri, before: await readCurrentText(uri) });
+    log(`Checkpoints: turn ${turn.index} of ${sessionId} snapshot ${uri.fsPath}`);
+    this._onDidChange.fire();
+  }
+
+  /** Turns of a session that changed files, oldest first. */
+  getTurns(sessionId: string): Turn[] {
+    return (this.turns.get(sessionId) ?? []).filter(t => t.files.size > 0);
+  }
+
+  /** The session's most recent turn, with or without file changes. */
+  getLatestTurn(sessionId: string): Turn | undefined {
+    return this.turns.get(sessionId)?.at(-1);
+  }
+
+  getTurn(sessionId: string, index: number): Turn | undefined {
+    return this.turns.get(sessionId)?.find(t => t.index === index);
+  }
+
+  /** Sessions that have at least one turn with file changes. */
+  getSessionIds(): string[] {
+    return [...this.turns.keys()].filter(id => this.getTurns(id).length > 0);
+  }
+
+  /**
+   * Files that reverting to before turn `index` would restore, with the
+   * state each goes back to (the earliest snapshot from that turn on).
+   */
+  getRevertSet(sessionId: string, index: number): FileSnapshot[] {
+    const restore = new Map<string, FileSnapshot>();
+    for (const turn of this.turns.get(sessionId) ?? []) {
+      if (turn.index < index) { continue; }
+      for (const [key, snapshot] of turn.files) {
+        if (!restore.has(key)) {
+          restore.set(key, snapshot);
+        }
+      }
+    }
+    return [...restore.values()];
+  }
+
+  /**
+   * Restore every file changed in turn `index` and later to its state
+   * before that turn, and drop those turns. Created files are deleted.
+   */
+  async revertTo(sessionId: string, index: number): Promise<FileSnapshot[]> {
+    if (this.openTurns.has(sessionId)) {
+      throw new Error('The agent is still working on this session. Cancel or wait for the turn to finish first.');
+    }
+    const restore = this.getRevertSet(sessionId, index);
+    for (const snapshot of restore) {
+      if (snapshot.before === null) {
+        const edit = new vscode.WorkspaceEdit();
+        edit.deleteFile(snapshot.uri, { ignoreIfNotExists: true });
+        await vscode.workspace.applyEdit(edit);
+      } else {
+        await writeFileContent(snapshot.uri, snapshot.before, false);
+      }
+    }
+    const remaining = (this.turns.get(sessionId) ?? []).filter(t => t.index < index);
+    this.turns.set(sessionId, remaining);
+    log(`Checkpoints: reverted ${sessionId} to before turn ${index} (${restore.length} file(s))`);
+    this._onDidChange.fire();
+    return restore;
+  }
+
+  /** Forget checkpoints of sessions that are no longer live. */
+  prune(liveSessionIds: string[]): void {
+    let changed = false;
+    for (const sessionId of [...this.turns.keys()]) {
+      if (!liveSessionIds.includes(sessionId)) {
+        this.turns.delete(sessionId);
+        this.openTurns.delete(sessionId);
+        this.turnCounters.delete(sessionId);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this._onDidChange.fire();
+    }
+  }
+
+  dispose(): void {
+    this.turns.clear();
+    this.openTurns.clear();
+    this._onDidChange.dispose();
+  }
+}
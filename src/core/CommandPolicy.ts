@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import { RequestError } from '@agentclientprotocol/sdk';
+
+import type { FileAccessPolicy } from './FileAccessPolicy';
+import { globToRegExp } from '../utils/Glob';
+import { log, logError } from '../utils/Logger';
+
+export type CommandAction = 'allow' | 'ask' | 'deny';
+
+/** An entry of `acp.terminal.rules`; give either `match` (glob) or `regex`. */
+export interface CommandRule {
+  match?: string;
+  regex?: string;
+  action: CommandAction;
+}
+
+/** A command the policy refused (or the user declined). */
+export interface CommandViolation {
+  sessionId: string;
+  commandLine: string;
+  cwd: string;
+  reason: string;
+}
+
+interface Decision {
+  action: CommandAction;
+  reason: string;
+}
+
+/** Splits a command line at `&&`, `||`, `;`, `|`, `&` and newlines (not `2>&1`). */
+const COMMAND_SEPARATOR = /\s*(?:&&|\|\||;|\||(?<![<>])&(?!>)|\n)\s*/;
+/** `$(...)` and backticks can run commands no rule sees. */
+const COMMAND_SUBSTITUTION = /\$\(|`/;
+
+const STRICTNESS: Record<CommandAction, number> = { allow: 0, ask: 1, deny: 2 };
+
+/**
+ * Policy for commands agents run via `terminal/create`, checked before
+ * anything is spawned and configured under `acp.terminal.*`:
+ *
+ * - `blockedCommands`: regexes on the full command line that are always
+ *   refused (`rm -rf /`, `curl ... | sh`, ...).
+ * - `restrictCwd`: the working directory must be inside the workspace
+ *   (or `acp.fileAccess.allowedPaths`). Callers pass the directory the
+ *   command will actually run in, including when the agent gave none.
+ * - `rules`: ordered glob / regex rules with an action; the first rule
+ *   matching a command decides it. A command line chaining several
+ *   commands gets the strictest of their decisions, and allow rules never
+ *   apply to commands containing a command substitution.
+ * - `defaultAction`: for commands no rule matches.
+ *
+ * `ask` shows a modal; refusals fail `terminal/create` with an ACP error
+ * and fire {@link onDidDeny}. Every decision is logged.
+ */
+export class CommandPolicy {
+  private readonly _onDidDeny = new vscode.EventEmitter<CommandViolation>();
+  readonly onDidDeny = this._onDidDeny.event;
+  /** Command lines the user allowed for the rest of a session, by session. */
+  private sessionAllowed: Map<string, Set<string>> = new Map();
+
+  constructor(private readonly fileAccessPolicy: FileAccessPolicy) {}
+
+  /** Throw an ACP error unless the session's agent may run `commandLine` in `cwd`. */
+  async check(sessionId: string, commandLine: string, cwd: string): Promise<void> {
+    const decision = await this.evaluate(sessionId, commandLine, cwd);
+    let reason: string | undefined;
+    if (decision.action === 'deny') {
+      reason = decision.reason;
+    } else if (decision.action === 'ask' && !await this.ask(sessionId, commandLine, cwd, decision.reason)) {
+      reason = 'the user declined to run it';
+    }
+    log(`CommandPolicy: ${reason ? 'denied' : 'allowed'} "${commandLine}" in ${cwd}: ${reason ?? decision.reason}`);
+    if (reason) {
+      this._onDidDeny.fire({ sessionId, commandLine, cwd, reason });
+      throw RequestError.invalidParams({ command: commandLine, reason }, `Command denied: ${reason}`);
+    }
+  }
+
+  /** The policy's decision for a command line, before asking the user. */
+  async evaluate(sessionId: string, commandLine: string, cwd: string): Promise<Decision> {
+    const config = vscode.workspace.getConfiguration('acp.terminal');
+
+    for (const pattern of config.get<string[]>('blockedCommands', [])) {
+      if (compile(pattern)?.test(commandLine)) {
+        return { action: 'deny', reason: `it matches the blocked command pattern "${pattern}"` };
+      }
+    }
+    if (config.get<boolean>('restrictCwd', true) && !await this.fileAccessPolicy.isInsideWorkspace(cwd)) {
+      return { action: 'deny', reason: `the working directory ${cwd} is outside the workspace` };
+    }
+    if (this.sessionAllowed.get(sessionId)?.has(commandLine)) {
+      return { action: 'allow', reason: 'allowed for this session' };
+    }
+
+    const rules = config.get<CommandRule[]>('rules', []);
+    const defaultAction = config.get<CommandAction>('defaultAction', 'allow');
+    const hasSubstitution = COMMAND_SUBSTITUTION.test(commandLine);
+    let decision: Decision | undefined;
+    for (const command of commandLine.split(COMMAND_SEPARATOR).filter(c => c.trim())) {
+      const rule = rules.find(r => ruleMatches(r, command.trim()));
+      let next: Decision = rule
+        ? { action: rule.action, reason: `"${command.trim()}" matches rule ${rule.match ?? `/${rule.regex}/`}` }
+        : { action: defaultAction, reason: `no rule matches "${command.trim()}"` };
+      if (next.action === 'allow' && rule && hasSubstitution) {
+        next = { action: defaultAction === 'allow' ? 'ask' : defaultAction, reason: 'the command line contains a command substitution' };
+      }
+      if (!decision || STRICTNESS[next.action] > STRICTNESS[decision.action]) {
+        decision = next;
+      }
+    }
+    return decision ?? { action: defaultAction, reason: 'empty command line' };
+  }
+
+  /** Forget per-session allowances of sessions that are no longer live. */
+  prune(liveSessionIds: string[]): void {
+    for (const sessionId of [...this.sessionAllowed.keys()]) {
+      if (!liveSessionIds.includes(sessionId)) {
+        this.sessionAllowed.delete(sessionId);
+      }
+    }
+  }
+
+  dispose(): void {
+    this.sessionAllowed.clear();
+    this._onDidDeny.dispose();
+  }
+
+  private async ask(sessionId: string, commandLine: string, cwd: string, reason: string): Promise<boolean> {
+    const choice = await vscode.window.showWarningMessage(
+      'The agent wants to run a command.',
+      {
+        modal: true,
+        detail: `${commandLine}\n\nIn: ${cwd}\nAsking because ${reason}.`,
+      },
+      'Run',
+      'Always Run in This Session',
+    );
+    if (choice === 'Always Run in This Session') {
+      const allowed = this.sessionAllowed.get(sessionId) ?? new Set();
+      allowed.add(commandLine);
+      this.sessionAllowed.set(sessionId, allowed);
+    }
+    return !!choice;
+  }
+}
+
+function ruleMatches(rule: CommandRule, command: string): boolean {
+  if (rule.regex !== undefined) {
+    return compile(rule.regex)?.test(command) ?? false;
+  }
+  // Globs match the whole command; `*` may span `/` here.
+  return rule.match !== undefined && globToRegExp(rule.match.replace(/\*+/g, '**')).test(command);
+}
+
+const compiled: Map<string, RegExp | null> = new Map();
+
+/** Compile a user-supplied regex once; invalid ones are logged and never match. */
+function compile(pattern: string): RegExp | null {
+  if (!compiled.has(pattern)) {
+    try {
+      compiled.set(pattern, new RegExp(pattern));
+    } catch (e) {
+      logError(`CommandPolicy: invalid pattern "${pattern}"`, e);
+      compiled.set(pattern, null);
+    }
+  }
+  return compiled.get(pattern)!;
+}
@@ -5,6 +5,10 @@ import { ChildProcess } from 'node:child_process';
 import { Readable, Writable } from 'node:stream';
 
 import { AcpClientImpl } from './AcpClientImpl';
+import { PendingChanges } from './PendingChanges';
+import { Checkpoints } from './Checkpoints';
+import { FileAccessPolicy } from './FileAccessPolicy';
+import { WriteFeedback } from './WriteFeedback';
 import { FileSystemHandler } from '../handlers/FileSystemHandler';
 import { TerminalHandler } from '../handlers/TerminalHandler';
 import { PermissionHandler } from '../handlers/PermissionHandler';
@@ -27,6 +31,11 @@ export class ConnectionManager {
 
   constructor(
     private readonly sessionUpdateHandler: SessionUpdateHandler,
+    private readonly terminalHandler: TerminalHandler,
+    private readonly pendingChanges: PendingChanges,
+    private readonly checkpoints: Checkpoints,
+    private readonly fileAccessPolicy: FileAccessPolicy,
+    private readonly writeFeedback: WriteFeedback,
   ) {}
 
   /**
@@ -50,14 +59,18 @@ export class ConnectionManager {
     const tappedStream = this.tapStream(stream);
 
     // Create handlers
-    const fsHandler = new FileSystemHandler();
-    const terminalHandler = new TerminalHandler();
+    const fsHandler = new FileSystemHandler(
+      this.pendingChanges,
+      this.checkpoints,
+      this.fileAccessPolicy,
+      this.writeFeedback,
+    );
     const permissionHandler = new PermissionHandler();
 
     // Create client implementation
     const client = new AcpClientImpl(
       fsHandler,
-      terminalHandler,
+      this.terminalHandler,
       permissionHandler,
       this.sessionUpdateHandler,
     );
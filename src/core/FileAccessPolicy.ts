@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import * as os from 'node:os';
+import * as nodePath from 'node:path';
+import { realpath, stat } from 'node:fs/promises';
+import { RequestError } from '@agentclientprotocol/sdk';
+
+import { IgnoredFiles } from './IgnoredFiles';
+import { toWorkspaceUri } from '../utils/AgentPaths';
+import { matchesGlob } from '../utils/Glob';
+import { log } from '../utils/Logger';
+
+export type FileAccessMode = 'read' | 'write';
+
+/** A file request the policy refused. */
+export interface FileAccessViolation {
+  sessionId: string;
+  path: string;
+  mode: FileAccessMode;
+  reason: string;
+}
+
+/**
+ * Sandbox for agent file access (`fs/read_text_file`, `fs/write_text_file`),
+ * configured under `acp.fileAccess.*`:
+ *
+ * - `restrictToWorkspace`: only paths inside a workspace folder (or
+ *   `allowedPaths`) are reachable. Symlinks are resolved first. With no
+ *   folder open, only `allowedPaths` (and `untitled:` buffers) are.
+ *
+ * Paths are compared and matched case-insensitively on volumes that ignore
+ * case (the default on Windows and macOS), so `.ENV` cannot get past a
+ * `.env` pattern.
+ * - `deny`: globs that can be neither read nor written.
+ * - `readOnly`: globs that can be read but not written.
+ * - `ignoredFiles`: opt-in; reads of files ignored by `.gitignore`,
+ *   `files.exclude` or `.acpignore` are refused (`deny`) or need the
+ *   user's confirmation (`ask`).
+ *
+ * Refused requests fail with an ACP error and fire {@link onDidDeny} so
+ * the chat can tell the user.
+ */
+export class FileAccessPolicy {
+  private readonly _onDidDeny = new vscode.EventEmitter<FileAccessViolation>();
+  readonly onDidDeny = this._onDidDeny.event;
+  private readonly ignoredFiles = new IgnoredFiles();
+  /** Sessions the user let read ignored files for the rest of the session. */
+  private ignoredReadsAllowed: Set<string> = new Set();
+
+  /** Throw an ACP error if the session's agent may not access `path`. */
+  async check(sessionId: string, path: string, mode: FileAccessMode): Promise<void> {
+    let reason = await this.evaluate(path, mode);
+    if (!reason && mode === 'read') {
+      reason = await this.checkIgnoredRead(sessionId, path);
+    }
+    if (!reason) {
+      return;
+    }
+    log(`FileAccessPolicy: denied ${mode} of ${path}: ${reason}`);
+    this._onDidDeny.fire({ sessionId, path, mode, reason });
+    throw RequestError.invalidParams({ path, reason }, `Access denied: ${reason}`);
+  }
+
+  /** The reason `path` may not be accessed for `mode`, or undefined if allowed. */
+  async evaluate(path: string, mode: FileAccessMode): Promise<string | undefined> {
+    const config = vscode.workspace.getConfiguration('acp.fileAccess');
+    const uri = toWorkspaceUri(path);
+    if (uri.scheme === 'untitled') {
+      // Untitled buffers are not on disk, so there is nothing to sandbox.
+      return undefined;
+    }
+
+    const { inside, candidates, ignoreCase } = uri.scheme === 'file'
+      ? await this.locateLocal(uri.fsPath)
+      : this.locateInWorkspace(uri);
+
+    if (config.get<boolean>('restrictToWorkspace', true) && !inside) {
+      return `${path} is outside the workspace`;
+    }
+
+    const matching = (globs: string[]) =>
+      globs.find(glob => candidates.some(candidate => matchesGlob(candidate, glob, ignoreCase)));
+
+    const denied = matching(config.get<string[]>('deny', []));
+    if (denied) {
+      return `${path} matches the deny pattern "${denied}"`;
+    }
+    if (mode === 'write') {
+      const readOnly = matching(config.get<string[]>('readOnly', []));
+      if (readOnly) {
+        return `${path} is read-only (matches "${readOnly}")`;
+      }
+    }
+    return undefined;
+  }
+
+  /** Whether `path` is inside a workspace folder or `acp.fileAccess.allowedPaths`. */
+  async isInsideWorkspace(path: string): Promise<boolean> {
+    const uri = toWorkspaceUri(path);
+    const location = uri.scheme === 'file'
+      ? await this.locateLocal(uri.fsPath)
+      : this.locateInWorkspace(uri);
+    return location.inside;
+  }
+
+  /**
+   * Whether a local path is inside a workspace folder or allowed path, and
+   * the paths globs are matched against: relative to each containing root
+   * and absolute (for patterns like `/etc/**`).
+   */
+  private async locateLocal(path: string): Promise<PathLocation> {
+    const config = vscode.workspace.getConfiguration('acp.fileAccess');
+    const resolved = await resolveReal(nodePath.resolve(path));
+    const ignoreCase = await isCaseInsensitive(resolved);
+    const folders = vscode.workspace.workspaceFolders ?? [];
+    const roots = [
+      ...folders.filter(f => f.uri.scheme === 'file').map(f => f.uri.fsPath),
+      ...config.get<string[]>('allowedPaths', []).map(expandHome),
+    ];
+    const realRoots = await Promise.all(roots.map(root => resolveReal(nodePath.resolve(root))));
+    const containing = realRoots.filter(root => isInside(resolved, root, ignoreCase));
+    return {
+      inside: containing.length > 0,
+      candidates: [
+        ...containing.map(root => nodePath.relative(root, resolved)),
+        resolved,
+      ].map(p => p.split(nodePath.sep).join('/')),
+      ignoreCase,
+    };
+  }
+
+  /** {@link locateLocal} for remote and virtual workspace folders. */
+  private locateInWorkspace(uri: vscode.Uri): PathLocation {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    return {
+      inside: !!folder,
+      candidates: folder
+        ? [nodePath.posix.relative(folder.uri.path, uri.path), uri.path]
+        : [uri.path],
+      ignoreCase: PLATFORM_IGNORES_CASE,
+    };
+  }
+
+  /**
+   * Apply `acp.fileAccess.ignoredFiles` to a read: the reason it is
+   * refused, or undefined if the file is not ignored or the user allows it.
+   */
+  private async checkIgnoredRead(sessionId: string, path: string): Promise<string | undefined> {
+    const setting = vscode.workspace.getConfiguration('acp.fileAccess').get<string>('ignoredFiles', 'off');
+    if (setting === 'off' || this.ignoredReadsAllowed.has(sessionId)) {
+      return undefined;
+    }
+    const source = await this.ignoredFiles.match(toWorkspaceUri(path));
+    if (!source) {
+      return undefined;
+    }
+    if (setting === 'deny') {
+      return `${path} is ignored (${source})`;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `The agent wants to read ${vscode.workspace.asRelativePath(path)}, which is ignored (${source}).`,
+      { modal: true, detail: 'Ignored files are usually generated or vendored and waste the agent\'s context.' },
+      'Allow',
+      'Allow for This Session',
+    );
+    if (choice === 'Allow for This Session') {
+      this.ignoredReadsAllowed.add(sessionId);
+    }
+    return choice ? undefined : `the user declined reading ${path}, which is ignored (${source})`;
+  }
+
+  dispose(): void {
+    this.ignoredReadsAllowed.clear();
+    this._onDidDeny.dispose();
+  }
+}
+
+interface PathLocation {
+  inside: boolean;
+  candidates: string[];
+  /** Whether the file's volume ignores case. */
+  ignoreCase: boolean;
+}
+
+/** Whether volumes ignore case by default on this platform. */
+const PLATFORM_IGNORES_CASE = process.platform === 'win32' || process.platform === 'darwin';
+
+/** Probed case sensitivity, by device id. */
+const caseInsensitiveVolumes: Map<number, boolean> = new Map();
+
+/**
+ * Whether the volume holding `p` ignores case. Probed once per volume by
+ * looking up an existing path component with its case swapped; the
+ * platform default is used when nothing can be probed.
+ */
+async function isCaseInsensitive(p: string): Promise<boolean> {
+  let existing = p;
+  let dev: number | undefined;
+  while (dev === undefined) {
+    try {
+      dev = (await stat(existing)).dev;
+    } catch {
+      const parent = nodePath.dirname(existing);
+      if (parent === existing) {
+        return PLATFORM_IGNORES_CASE;
+      }
+      existing = parent;
+    }
+  }
+  const cached = caseInsensitiveVolumes.get(dev);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  for (let component = existing; nodePath.dirname(component) !== component; component = nodePath.dirname(component)) {
+    const name = nodePath.basename(component);
+    const swapped = swapCase(name);
+    if (swapped === name) {
+      continue;
+    }
+    const original = await stat(component);
+    if (original.dev !== dev) {
+      break;
+    }
+    let result: boolean;
+    try {
+      const other = await stat(nodePath.join(nodePath.dirname(component), swapped));
+      result = other.dev === original.dev && other.ino === original.ino;
+    } catch {
+      result = false;
+    }
+    caseInsensitiveVolumes.set(dev, result);
+    return result;
+  }
+  return PLATFORM_IGNORES_CASE;
+}
+
+function swapCase(s: string): string {
+  return [...s].map(c => c === c.toLowerCase() ? c.toUpperCase() : c.toLowerCase()).join('');
+}
+
+function expandHome(p: string): string {
+  return p === '~' || p.startsWith('~/') ? nodePath.join(os.homedir(), p.slice(1)) : p;
+}
+
+function isInside(p: string, root: string, ignoreCase: boolean): boolean {
+  const rel = ignoreCase
+    ? nodePath.relative(root.toLowerCase(), p.toLowerCase())
+    : nodePath.relative(root, p);
+  return rel === '' || (rel !== '..' && !rel.startsWith('..' + nodePath.sep) && !nodePath.isAbsolute(rel));
+}
+
+/**
+ * Resolve symlinks so a link inside the workspace cannot reach outside it.
+ * For paths that do not exist yet, the nearest existing ancestor is
+ * resolved and the rest appended.
+ */
+async function resolveReal(p: string): Promise<string> {
+  try {
+    return await realpath(p);
+  } catch {
+    const parent = nodePath.dirname(p);
+    if (parent === p) {
+      return p;
+    }
+    return nodePath.join(await resolveReal(parent), nodePath.basename(p));
+  }
+}
@@ -0,0 +1,153 @@
+import * as vscode from 'vscode';
+import * as nodePath from 'node:path';
+
+import { globToRegExp, matchesGlob } from '../utils/Glob';
+
+/** Per-directory ignore files, checked from the workspace folder down. */
+const IGNORE_FILE_NAMES = ['.gitignore', '.acpignore'];
+
+/** One line of a `.gitignore` / `.acpignore` file. */
+interface IgnoreRule {
+  pattern: string;
+  negated: boolean;
+  /** Trailing `/`: only matches directories. */
+  directoryOnly: boolean;
+  /** Contains a `/`: relative to the ignore file's directory. */
+  anchored: boolean;
+}
+
+interface ParsedIgnoreFile {
+  mtime: number;
+  rules: IgnoreRule[];
+}
+
+/** Parse gitignore syntax (comments, `!` negation, trailing `/`, anchoring). */
+function parseIgnoreFile(text: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    let line = raw.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    }
+    line = line.replace(/^\\([#!])/, '$1');
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) {
+      line = line.slice(0, -1);
+    }
+    const anchored = line.includes('/');
+    line = line.replace(/^\//, '');
+    if (line) {
+      rules.push({ pattern: line, negated, directoryOnly, anchored });
+    }
+  }
+  return rules;
+}
+
+function ruleMatches(rule: IgnoreRule, relPath: string, isDirectory: boolean): boolean {
+  if (rule.directoryOnly && !isDirectory) {
+    return false;
+  }
+  return rule.anchored
+    ? globToRegExp(rule.pattern).test(relPath)
+    : matchesGlob(relPath, rule.pattern);
+}
+
+/**
+ * Decides whether a workspace file is "ignored" — excluded by `.gitignore`,
+ * the `files.exclude` setting or a `.acpignore` file — so agent reads of
+ * generated or vendored files can be refused or confirmed first.
+ *
+ * Ignore files are read from every directory between the workspace folder
+ * and the file, and cached until their mtime changes. As in git, a file
+ * inside an ignored directory is ignored even if a later rule re-includes it.
+ */
+export class IgnoredFiles {
+  private cache: Map<string, ParsedIgnoreFile> = new Map();
+
+  /**
+   * A description of what ignores `uri` (e.g. `.gitignore: dist`), or
+   * undefined if it is not ignored or not in a workspace folder.
+   */
+  async match(uri: vscode.Uri): Promise<string | undefined> {
+    const folder = vscode.workspace.getWorkspaceFolder(uri);
+    if (!folder) {
+      return undefined;
+    }
+    const relPath = nodePath.posix.relative(folder.uri.path, uri.path);
+    if (!relPath || relPath.startsWith('../')) {
+      return undefined;
+    }
+    const segments = relPath.split('/');
+
+    // Ignore files of each directory from the folder down to the file's.
+    const rulesByDir: { source: string; rules: IgnoreRule[] }[][] = [];
+    for (let dirDepth = 0; dirDepth < segments.length; dirDepth++) {
+      const dir = segments.slice(0, dirDepth);
+      const files = [];
+      for (const name of IGNORE_FILE_NAMES) {
+        const parsed = await this.load(vscode.Uri.joinPath(folder.uri, ...dir, name));
+        if (parsed) {
+          files.push({ source: [...dir, name].join('/'), rules: parsed.rules });
+        }
+      }
+      rulesByDir.push(files);
+    }
+
+    const excludes = vscode.workspace.getConfiguration('files', folder.uri)
+      .get<Record<string, unknown>>('exclude', {});
+    const excludeGlobs = Object.keys(excludes).filter(glob => excludes[glob] === true);
+
+    // Walk the path one segment at a time so ignored directories stop the
+    // walk before rules deeper down can re-include anything.
+    for (let depth = 1; depth <= segments.length; depth++) {
+      const prefix = segments.slice(0, depth).join('/');
+      const isDirectory = depth < segments.length;
+
+      const excluded = excludeGlobs.find(glob => globToRegExp(glob).test(prefix));
+      if (excluded) {
+        return `files.exclude: ${excluded}`;
+      }
+
+      // Rules from ignore files in the directories above `prefix`; later
+      // (deeper, then later in the file) rules win.
+      let verdict: string | undefined;
+      for (let dirDepth = 0; dirDepth < depth; dirDepth++) {
+        const relToDir = segments.slice(dirDepth, depth).join('/');
+        for (const { source, rules } of rulesByDir[dirDepth]) {
+          for (const rule of rules) {
+            if (ruleMatches(rule, relToDir, isDirectory)) {
+              verdict = rule.negated ? undefined : `${source}: ${rule.pattern}`;
+            }
+          }
+        }
+      }
+      if (verdict) {
+        return verdict;
+      }
+    }
+    return undefined;
+  }
+
+  private async load(uri: vscode.Uri): Promise<ParsedIgnoreFile | null> {
+    const file = uri.toString();
+    let mtime: number;
+    try {
+      mtime = (await vscode.workspace.fs.stat(uri)).mtime;
+    } catch {
+      this.cache.delete(file);
+      return null;
+    }
+    const cached = this.cache.get(file);
+    if (cached && cached.mtime === mtime) {
+      return cached;
+    }
+    const text = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf-8');
+    const parsed = { mtime, rules: parseIgnoreFile(text) };
+    this.cache.set(file, parsed);
+    return parsed;
+  }
+}
@@ -0,0 +1,131 @@
+import * as vscode from 'vscode';
+
+import type { Checkpoints } from './Checkpoints';
+import type { WriteFeedback } from './WriteFeedback';
+import { readCurrentText, writeAgentFile } from '../handlers/FileSystemHandler';
+import { DiffHunk, applyHunks } from '../utils/LineDiff';
+import { log } from '../utils/Logger';
+
+/**
+ * An agent write held back for review (`acp.reviewWrites`). Nothing is
+ * written to the workspace until the change, or some of its hunks, are
+ * accepted.
+ */
+export interface PendingChange {
+  uri: vscode.Uri;
+  /** Session whose agent made the write. */
+  sessionId: string;
+  /**
+   * Text the proposal is diffed against: the file as it was when first
+   * staged, plus any hunks accepted since. `null` when the file is new.
+   */
+  original: string | null;
+  /** Latest content the agent wrote. */
+  proposed: string;
+}
+
+/**
+ * Staging area for agent writes, shared by all agent connections. Later
+ * writes to the same file replace the proposal but keep the original, so
+ * the review always shows the agent's net change.
+ *
+ * Accepted changes take the same write path as direct agent writes: they
+ * are recorded in the staging session's latest {@link Checkpoints} turn,
+ * so they can be reverted, and get the {@link WriteFeedback} checks.
+ */
+export class PendingChanges {
+  private changes: Map<string, PendingChange> = new Map();
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  /** Fires whenever a change is staged, accepted or rejected. */
+  readonly onDidChange = this._onDidChange.event;
+
+  constructor(
+    private readonly checkpoints: Checkpoints,
+    private readonly writeFeedback: WriteFeedback,
+  ) {}
+
+  /** Stage `content` as the agent's proposal for `uri`. */
+  async stage(sessionId: string, uri: vscode.Uri, content: string): Promise<void> {
+    const key = uri.toString();
+    const existing = this.changes.get(key);
+    const original = existing ? existing.original : await readCurrentText(uri);
+
+    if (content === original) {
+      // The agent wrote the file back to its original state.
+      this.changes.delete(key);
+    } else {
+      this.changes.set(key, { uri, sessionId, original, proposed: content });
+    }
+    log(`PendingChanges: staged ${uri.fsPath} (${this.changes.size} pending)`);
+    this._onDidChange.fire();
+  }
+
+  get(uri: vscode.Uri): PendingChange | undefined {
+    return this.changes.get(uri.toString());
+  }
+
+  getAll(): PendingChange[] {
+    return [...this.changes.values()];
+  }
+
+  get size(): number {
+    return this.changes.size;
+  }
+
+  /**
+   * Whether the file no longer matches the original the proposal was
+   * diffed against (the user edited it meanwhile). Accepting would
+   * overwrite those edits.
+   */
+  async isStale(change: PendingChange): Promise<boolean> {
+    return (await readCurrentText(change.uri)) !== change.original;
+  }
+
+  /** Write the whole proposal to the workspace. */
+  async accept(change: PendingChange): Promise<void> {
+    await writeAgentFile(change.sessionId, change.uri, change.proposed, this.checkpoints, this.writeFeedback);
+    this.changes.delete(change.uri.toString());
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Write only `hunks` (computed against `change.original`). The rest of
+   * the proposal stays pending against the new on-disk text.
+   */
+  async acceptHunks(change: PendingChange, hunks: DiffHunk[]): Promise<void> {
+    const text = applyHunks(change.original ?? '', hunks);
+    await writeAgentFile(change.sessionId, change.uri, text, this.checkpoints, this.writeFeedback);
+    if (text === change.proposed) {
+      this.changes.delete(change.uri.toString());
+    } else {
+      change.original = text;
+    }
+    this._onDidChange.fire();
+  }
+
+  /** Drop the proposal without touching the workspace. */
+  reject(change: PendingChange): void {
+    this.changes.delete(change.uri.toString());
+    this._onDidChange.fire();
+  }
+
+  /** Drop the proposals of sessions that are no longer live. */
+  prune(liveSessionIds: string[]): void {
+    let changed = false;
+    for (const [key, change] of [...this.changes]) {
+      if (!liveSessionIds.includes(change.sessionId)) {
+        log(`PendingChanges: dropped ${change.uri.fsPath} of closed session ${change.sessionId}`);
+        this.changes.delete(key);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this._onDidChange.fire();
+    }
+  }
+
+  dispose(): void {
+    this.changes.clear();
+    this._onDidChange.dispose();
+  }
+}
@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import type { ContentBlock, PromptCapabilities } from '@agentclientprotocol/sdk';
+
+import { logError } from '../utils/Logger';
+import { decodeText, isBinary } from '../utils/TextEncoding';
+
+/**
+ * A file the user attached to a prompt in the chat composer.
+ */
+export interface FileAttachment {
+  kind: 'file';
+  /** `vscode.Uri.toString()` form of the file. */
+  uri: string;
+  /** Display name (file basename). */
+  name: string;
+}
+
+/**
+ * An image pasted or dropped into the chat composer.
+ */
+export interface ImageAttachment {
+  kind: 'image';
+  /** Display name (file name, or a generated one for clipboard images). */
+  name: string;
+  mimeType: string;
+  /** Base64-encoded image bytes. */
+  data: string;
+  /** Small data-URL preview shown in the transcript instead of the image. */
+  thumbnail?: string;
+}
+
+/**
+ * An audio file (wav / mp3) attached to a prompt, sent as an `audio` block.
+ */
+export interface AudioAttachment {
+  kind: 'audio';
+  /** `vscode.Uri.toString()` form of the source file. */
+  uri: string;
+  name: string;
+  mimeType: string;
+  /** Base64-encoded audio bytes. */
+  data: string;
+}
+
+export type PromptAttachment = FileAttachment | ImageAttachment | AudioAttachment;
+
+/** Audio formats that are attached as `audio` blocks, by file extension. */
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+};
+
+/** Audio files above this size are refused when attaching. */
+export const MAX_AUDIO_BYTES = 10 * 1024 * 1024;
+
+/**
+ * Return the audio MIME type for a file the client sends as an `audio`
+ * block, or `undefined` if it should be attached as a regular file.
+ */
+export function audioMimeType(uri: vscode.Uri): string | undefined {
+  const dot = uri.path.lastIndexOf('.');
+  return dot < 0 ? undefined : AUDIO_MIME_TYPES[uri.path.slice(dot).toLowerCase()];
+}
+
+/**
+ * Attachments above this size are always sent as `resource_link`, even to
+ * agents that accept embedded context, to keep prompts a reasonable size.
+ */
+const MAX_EMBED_BYTES = 1024 * 1024;
+
+/**
+ * Build the `session/prompt` content for a chat message: the typed text
+ * followed by one block per attachment.
+ *
+ * Per ACP, every agent must accept `resource_link`; embedded `resource`
+ * blocks are only sent when the agent advertises
+ * `promptCapabilities.embeddedContext`. Images and audio require
+ * `promptCapabilities.image` / `promptCapabilities.audio` — without them the
+ * prompt is refused rather than silently dropping the media.
+ */
+export async function buildPromptContent(
+  text: string,
+  attachments: PromptAttachment[],
+  caps: PromptCapabilities | undefined | null,
+): Promise<ContentBlock[]> {
+  if (!caps?.image && attachments.some(a => a.kind === 'image')) {
+    throw new Error('This agent does not accept images (promptCapabilities.image is not advertised). Remove the image and try again.');
+  }
+  if (!caps?.audio && attachments.some(a => a.kind === 'audio')) {
+    throw new Error('This agent does not accept audio (promptCapabilities.audio is not advertised). Remove the audio file and try again.');
+  }
+
+  const blocks: ContentBlock[] = [];
+  if (text) {
+    blocks.push({ type: 'text', text });
+  }
+  for (const attachment of attachments) {
+    if (attachment.kind === 'image') {
+      blocks.push({ type: 'image', data: attachment.data, mimeType: attachment.mimeType });
+    } else if (attachment.kind === 'audio') {
+      blocks.push({ type: 'audio', data: attachment.data, mimeType: attachment.mimeType });
+    } else {
+      blocks.push(await buildFileBlock(attachment, !!caps?.embeddedContext));
+    }
+  }
+  return blocks;
+}
+
+/**
+ * Content block for a whole file: embedded `resource` when `embed` is set
+ * and the file is small enough, otherwise a `resource_link`.
+ */
+export async function buildFileBlock(attachment: Omit<FileAttachment, 'kind'>, embed: boolean): Promise<ContentBlock> {
+  const uri = vscode.Uri.parse(attachment.uri);
+
+  let size: number | undefined;
+  try {
+    size = (await vscode.workspace.fs.stat(uri)).size;
+  } catch {
+    // Unreadable here — the agent may still be able to resolve the link.
+  }
+
+  if (embed && size !== undefined && size <= MAX_EMBED_BYTES) {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(uri);
+      if (!isBinary(bytes)) {
+        return {
+          type: 'resource',
+          resource: { uri: attachment.uri, text: decodeText(bytes).text },
+        };
+      }
+      return {
+        type: 'resource',
+        resource: { uri: attachment.uri, blob: Buffer.from(bytes).toString('base64') },
+      };
+    } catch (e) {
+      logError(`Failed to embed attachment ${attachment.uri}, sending a link instead`, e);
+    }
+  }
+
+  return {
+    type: 'resource_link',
+    uri: attachment.uri,
+    name: attachment.name,
+    ...(size !== undefined ? { size } : {}),
+  };
+}
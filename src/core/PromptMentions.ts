@@ -0,0 +1,231 @@
+import * as vscode from 'vscode';
+import { execFile } from 'node:child_process';
+import type { ContentBlock, PromptCapabilities } from '@agentclientprotocol/sdk';
+
+import { buildFileBlock } from './PromptContent';
+import { logError } from '../utils/Logger';
+
+/**
+ * An `@`-mention typed in the chat composer. Mentions only carry a
+ * reference; their content is read when the prompt is sent so the agent
+ * sees the current state of the workspace.
+ */
+export type PromptMention =
+  | { kind: 'file'; label: string; uri: string }
+  | {
+    kind: 'selection';
+    label: string;
+    uri: string;
+    /** 1-based, inclusive. */
+    startLine: number;
+    /** 1-based, inclusive. */
+    endLine: number;
+  }
+  | { kind: 'problems'; label: string }
+  | { kind: 'diff'; label: string };
+
+/** A row in the composer's `@` popup. */
+export type MentionSuggestion = PromptMention & {
+  /** Secondary text (relative path, problem count, …). */
+  detail?: string;
+};
+
+const MAX_FILE_SUGGESTIONS = 20;
+
+/** Git diffs above this size are cut off to keep prompts a reasonable size. */
+const MAX_DIFF_CHARS = 200 * 1024;
+
+/**
+ * Suggestions for the composer's `@` popup: the current selection, the
+ * problems list and git diff, open editors, then workspace files matching
+ * `query`.
+ */
+export async function suggestMentions(query: string): Promise<MentionSuggestion[]> {
+  const q = query.toLowerCase();
+  const matches = (label: string) => !q || label.toLowerCase().includes(q);
+  const results: MentionSuggestion[] = [];
+
+  const editor = findSelectionEditor();
+  if (editor) {
+    const selection = selectionMention(editor);
+    if (matches(selection.label) || matches('selection')) {
+      results.push({ ...selection, detail: 'Current selection' });
+    }
+  }
+
+  if (matches('problems')) {
+    const count = vscode.languages.getDiagnostics()
+      .reduce((n, [, diagnostics]) => n + diagnostics.length, 0);
+    results.push({ kind: 'problems', label: 'problems', detail: `${count} problem(s) in the Problems panel` });
+  }
+  if (matches('diff')) {
+    results.push({ kind: 'diff', label: 'diff', detail: 'Uncommitted changes (git diff HEAD)' });
+  }
+
+  const seen = new Set<string>();
+  const addFile = (uri: vscode.Uri) => {
+    const key = uri.toString();
+    const label = basename(uri);
+    if (seen.has(key) || !matches(label)) { return; }
+    seen.add(key);
+    results.push({ kind: 'file', label, uri: key, detail: vscode.workspace.asRelativePath(uri) });
+  };
+
+  for (const group of vscode.window.tabGroups.all) {
+    for (const tab of group.tabs) {
+      if (tab.input instanceof vscode.TabInputText) {
+        addFile(tab.input.uri);
+      }
+    }
+  }
+
+  // Glob metacharacters in the query would change the search; drop them.
+  const pattern = q.replace(/[[\]{}*?!]/g, '');
+  if (pattern) {
+    const files = await vscode.workspace.findFiles(`**/*${pattern}*`, undefined, MAX_FILE_SUGGESTIONS);
+    for (const uri of files) {
+      addFile(uri);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Editor whose selection `@selection` / "Send Selection to Agent" refers
+ * to. Falls back to any visible editor with a selection, since focusing a
+ * chat editor tab clears `activeTextEditor`.
+ */
+export function findSelectionEditor(): vscode.TextEditor | undefined {
+  const active = vscode.window.activeTextEditor;
+  if (active && !active.selection.isEmpty) { return active; }
+  return vscode.window.visibleTextEditors.find(e => !e.selection.isEmpty);
+}
+
+/** Mention for an editor's primary selection, labelled `file.ts:10-20`. */
+export function selectionMention(editor: vscode.TextEditor): Extract<PromptMention, { kind: 'selection' }> {
+  const { start, end } = editor.selection;
+  // A selection ending at column 0 does not include that line.
+  const lastLine = end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+  const startLine = start.line + 1;
+  const endLine = lastLine + 1;
+  const range = startLine === endLine ? `${startLine}` : `${startLine}-${endLine}`;
+  return {
+    kind: 'selection',
+    label: `${basename(editor.document.uri)}:${range}`,
+    uri: editor.document.uri.toString(),
+    startLine,
+    endLine,
+  };
+}
+
+/**
+ * Resolve mentions into content blocks. Files and selections follow the
+ * attachment rules (embedded `resource` when the agent supports embedded
+ * context, else `resource_link`); selections carry their line range as a
+ * `#L<start>-L<end>` URI fragment. Problems and the git diff are sent as
+ * text.
+ */
+export async function resolveMentions(
+  mentions: PromptMention[],
+  caps: PromptCapabilities | undefined | null,
+): Promise<ContentBlock[]> {
+  const embed = !!caps?.embeddedContext;
+  const blocks: ContentBlock[] = [];
+  for (const mention of mentions) {
+    switch (mention.kind) {
+      case 'file':
+        blocks.push(await buildFileBlock({ uri: mention.uri, name: mention.label }, embed));
+        break;
+      case 'selection':
+        blocks.push(await buildSelectionBlock(mention, embed));
+        break;
+      case 'problems':
+        blocks.push({ type: 'text', text: formatProblems() });
+        break;
+      case 'diff':
+        blocks.push({ type: 'text', text: await formatGitDiff() });
+        break;
+    }
+  }
+  return blocks;
+}
+
+async function buildSelectionBlock(
+  mention: Extract<PromptMention, { kind: 'selection' }>,
+  embed: boolean,
+): Promise<ContentBlock> {
+  const uri = `${mention.uri}#L${mention.startLine}-L${mention.endLine}`;
+  if (embed) {
+    try {
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(mention.uri));
+      const lastLine = Math.min(mention.endLine, doc.lineCount) - 1;
+      const range = new vscode.Range(mention.startLine - 1, 0, lastLine, doc.lineAt(lastLine).text.length);
+      return { type: 'resource', resource: { uri, text: doc.getText(range) } };
+    } catch (e) {
+      logError(`Failed to read selection ${uri}, sending a link instead`, e);
+    }
+  }
+  return {
+    type: 'resource_link',
+    uri,
+    name: mention.label,
+    description: `Lines ${mention.startLine}-${mention.endLine}`,
+  };
+}
+
+function formatProblems(): string {
+  const lines: string[] = [];
+  for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+    for (const d of diagnostics) {
+      const severity = vscode.DiagnosticSeverity[d.severity].toLowerCase();
+      const source = d.source ? ` [${d.source}]` : '';
+      lines.push(`${vscode.workspace.asRelativePath(uri)}:${d.range.start.line + 1}:${d.range.start.character + 1} ${severity}${source}: ${d.message}`);
+    }
+  }
+  return lines.length > 0
+    ? `Problems reported in the workspace:\n${lines.join('\n')}`
+    : 'Problems reported in the workspace: none.';
+}
+
+async function formatGitDiff(): Promise<string> {
+  const cwd = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!cwd) {
+    return 'Git diff: no workspace folder is open.';
+  }
+  let diff: string;
+  try {
+    diff = await runGit(['diff', 'HEAD'], cwd);
+  } catch {
+    // No commits yet — fall back to the unstaged diff.
+    try {
+      diff = await runGit(['diff'], cwd);
+    } catch (e: any) {
+      logError('git diff failed', e);
+      return `Git diff unavailable: ${e.message}`;
+    }
+  }
+  if (!diff.trim()) {
+    return 'Git diff: no uncommitted changes.';
+  }
+  const truncated = diff.length > MAX_DIFF_CHARS;
+  const body = truncated ? diff.slice(0, MAX_DIFF_CHARS) : diff;
+  return 'Uncommitted changes (git diff HEAD):\n```diff\n' + body + '\n```'
+    + (truncated ? '\n(diff truncated)' : '');
+}
+
+function runGit(args: string[], cwd: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile('git', args, { cwd, maxBuffer: 16 * 1024 * 1024, timeout: 15_000 }, (err, stdout) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
+
+function basename(uri: vscode.Uri): string {
+  return uri.path.split('/').pop() || uri.toString();
+}
@@ -5,7 +5,6 @@ import type {
   NewSessionResponse,
   PromptResponse,
   InitializeResponse,
-  ContentBlock,
   SessionModeState,
   SessionModelState,
   AvailableCommand,
@@ -19,6 +18,10 @@ import { AgentManager } from './AgentManager';
 import { ConnectionManager, ConnectionInfo } from './ConnectionManager';
 import { SessionUpdateHandler } from '../handlers/SessionUpdateHandler';
 import { SessionHistoryStore } from './SessionHistoryStore';
+import { Checkpoints, Turn } from './Checkpoints';
+import { WriteFeedback } from './WriteFeedback';
+import { PromptAttachment, buildPromptContent } from './PromptContent';
+import { PromptMention, resolveMentions } from './PromptMentions';
 import { getAgentConfigs } from '../config/AgentConfig';
 import { log, logError } from '../utils/Logger';
 import { sendEvent, sendError } from '../utils/TelemetryManager';
@@ -53,6 +56,7 @@ export interface AgentCapabilitySummary {
   list: boolean;
   load: boolean;
   resume: boolean;
+  close: boolean;
 }
 
 /**
@@ -68,13 +72,25 @@ export type AgentConnectionError =
  * The "session" concept is hidden from the user — they just see agents.
  * Internally we still use ACP sessions for protocol compliance, but the
  * user-facing model is: pick an agent → chat.
+ *
+ * Several agents can be connected at the same time. Exactly one of their
+ * sessions is "active" — that is the one the chat view renders and the one
+ * commands like Cancel / Set Mode act on. Switching agents only changes the
+ * active session; the other agent processes keep running in the background.
+ *
+ * A connected agent can also host several live sessions over its single
+ * connection (ACP allows any number of `session/new` calls). New
+ * conversations open an extra session instead of respawning the process.
  */
 export class SessionManager extends EventEmitter {
   private sessions: Map<string, SessionInfo> = new Map();
   private activeSessionId: string | null = null;
 
-  /** Maps agentName → activeSessionId for the one-session-per-agent model. */
-  private agentSessions: Map<string, string> = new Map();
+  /**
+   * Maps agentName → live sessionIds, least recently activated first. An
+   * agent only has an entry while it has at least one live session.
+   */
+  private agentSessions: Map<string, string[]> = new Map();
 
   /**
    * Buffers session/update payloads that arrive before the corresponding
@@ -98,6 +114,12 @@ export class SessionManager extends EventEmitter {
   /** Client-side session history (optional — only used for tier-2 tree). */
   private historyStore: SessionHistoryStore | null = null;
 
+  /** Per-turn file checkpoints (optional — enables turn rollback). */
+  private checkpoints: Checkpoints | null = null;
+
+  /** Post-write diagnostics (optional — appended to the next prompt). */
+  private writeFeedback: WriteFeedback | null = null;
+
   constructor(
     private readonly agentManager: AgentManager,
     private readonly connectionManager: ConnectionManager,
@@ -116,6 +138,20 @@ export class SessionManager extends EventEmitter {
     return this.historyStore;
   }
 
+  /** Wire in the checkpoint store; prompts then open a checkpoint turn. */
+  setCheckpoints(checkpoints: Checkpoints): void {
+    this.checkpoints = checkpoints;
+  }
+
+  getCheckpoints(): Checkpoints | null {
+    return this.checkpoints;
+  }
+
+  /** Wire in post-write feedback; its pending errors ride along with prompts. */
+  setWriteFeedback(writeFeedback: WriteFeedback): void {
+    this.writeFeedback = writeFeedback;
+  }
+
   /**
    * Read cached capabilities for an agent. Returns `undefined` if the agent
    * has never been initialized — callers can call {@link ensureConnected}
@@ -136,30 +172,25 @@ export class SessionManager extends EventEmitter {
       list: !!sc?.list,
       load: !!(caps as any)?.loadSession,
       resume: !!sc?.resume,
+      close: !!sc?.close,
     };
   }
 
   /**
    * Connect to an agent and start chatting.
-   * Only one agent can be connected at a time — automatically disconnects
-   * any previously connected agent.
+   * Other connected agents are left running; the new session simply becomes
+   * the active one. If the agent is already connected, its most recently
+   * used session is re-activated instead of spawning a second process.
    * Internally creates a session via ACP protocol.
    */
   async connectToAgent(agentName: string): Promise<SessionInfo> {
     // If we already have a live session with this agent, reuse it
-    const existingSessionId = this.agentSessions.get(agentName);
+    const existingSessionId = this.agentSessions.get(agentName)?.at(-1);
     if (existingSessionId && this.sessions.has(existingSessionId)) {
-      this.activeSessionId = existingSessionId;
-      this.emit('active-session-changed', existingSessionId);
+      this.setActiveSession(existingSessionId);
       return this.sessions.get(existingSessionId)!;
     }
 
-    // Disconnect any currently connected agent first (single-agent model)
-    const currentAgent = this.getActiveAgentName();
-    if (currentAgent) {
-      await this.disconnectAgent(currentAgent);
-    }
-
     const configs = getAgentConfigs();
     const config = configs[agentName];
     if (!config) {
@@ -188,16 +219,17 @@ export class SessionManager extends EventEmitter {
       this.agentManager.on('agent-closed', (evt: { agentId: string; code: number | null }) => {
         if (evt.agentId === agentId) {
           log(`Agent ${agentName} closed with code ${evt.code}`);
-          // Clean up the session for this agent
-          const sessionId = this.agentSessions.get(agentName);
-          if (sessionId) {
-            this.sessions.delete(sessionId);
-            this.agentSessions.delete(agentName);
-            if (this.activeSessionId === sessionId) {
-              this.activeSessionId = null;
+          // Clean up every session this process was hosting
+          const sessionIds = this.agentSessions.get(agentName) ?? [];
+          if (sessionIds.length > 0 && this.sessions.get(sessionIds[0])?.agentId === agentId) {
+            for (const sessionId of sessionIds) {
+              this.sessions.delete(sessionId);
             }
+            this.agentSessions.delete(agentName);
             this.emit('agent-disconnected', agentName);
-            this.emit('active-session-changed', null);
+            if (this.activeSessionId && sessionIds.includes(this.activeSessionId)) {
+              this.releaseActiveSession(this.activeSessionId);
+            }
           }
           this.emit('agent-closed', agentId, evt.code);
         }
@@ -220,9 +252,15 @@ export class SessionManager extends EventEmitter {
       // Create ACP session (with auth handling). The session is already
       // registered in `this.sessions` by createAcpSession so that any
       // notifications arriving during/after newSession can be persisted.
-      const sessionInfo = await this.createAcpSession(agentName, agentId, connInfo, workspaceCwd);
+      let sessionInfo: SessionInfo;
+      try {
+        sessionInfo = await this.createAcpSession(agentName, agentId, connInfo, workspaceCwd);
+      } catch (e) {
+        this.agentManager.killAgent(agentId);
+        throw e;
+      }
 
-      this.agentSessions.set(agentName, sessionInfo.sessionId);
+      this.addAgentSession(agentName, sessionInfo.sessionId);
       this.activeSessionId = sessionInfo.sessionId;
 
       this.emit('agent-connected', agentName);
@@ -238,29 +276,78 @@ export class SessionManager extends EventEmitter {
   }
 
   /**
-   * Start a new conversation with the currently connected agent.
-   * Disconnects current session, reconnects, and signals chat to clear.
+   * Start a new conversation with the agent behind the active session (or
+   * `agentName`, if given). The new session is opened on the agent's
+   * existing connection; the previous sessions stay live so the user can
+   * switch back to them.
    */
-  async newConversation(): Promise<SessionInfo | null> {
-    const activeSession = this.getActiveSession();
-    if (!activeSession) {
+  async newConversation(agentName?: string): Promise<SessionInfo | null> {
+    const targetAgent = agentName ?? this.getActiveSession()?.agentName;
+    if (!targetAgent) {
       return null;
     }
 
-    const agentName = activeSession.agentName;
-    await this.disconnectAgent(agentName);
-    this.emit('clear-chat');
-    return this.connectToAgent(agentName);
+    const existingSessionId = this.agentSessions.get(targetAgent)?.at(-1);
+    const existing = existingSessionId ? this.sessions.get(existingSessionId) : undefined;
+    const connInfo = existing ? this.connectionManager.getConnection(existing.agentId) : undefined;
+    if (!existing || !connInfo) {
+      return this.connectToAgent(targetAgent);
+    }
+
+    log(`SessionManager: opening another session on agent "${targetAgent}"`);
+    sendEvent('session/new', { agentName: targetAgent });
+
+    const sessionInfo = await this.createAcpSession(targetAgent, existing.agentId, connInfo, this.getWorkspaceCwd());
+    this.addAgentSession(targetAgent, sessionInfo.sessionId);
+    this.activeSessionId = sessionInfo.sessionId;
+    this.emit('active-session-changed', sessionInfo.sessionId);
+    return sessionInfo;
   }
 
   /**
-   * Disconnect from an agent: kill process and clean up.
+   * Close one live session. The agent process is only stopped when this was
+   * its last session; otherwise `session/close` is sent (if the agent
+   * supports it) and the connection stays up for the remaining sessions.
+   */
+  async closeSession(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) { return; }
+
+    const agentName = session.agentName;
+    const siblings = this.agentSessions.get(agentName) ?? [];
+    if (siblings.length <= 1) {
+      await this.disconnectAgent(agentName);
+      return;
+    }
+
+    log(`Closing session ${sessionId} on agent ${agentName}`);
+    sendEvent('session/close', { agentName });
+
+    if (this.capabilities.get(agentName)?.close) {
+      const connInfo = this.connectionManager.getConnection(session.agentId);
+      try {
+        await connInfo?.connection.closeSession({ sessionId });
+      } catch (e) {
+        logError(`Failed to close session ${sessionId}`, e);
+      }
+    }
+
+    this.sessions.delete(sessionId);
+    this.removeAgentSession(agentName, sessionId);
+
+    this.emit('session-closed', sessionId, agentName);
+    this.releaseActiveSession(sessionId, agentName);
+  }
+
+  /**
+   * Disconnect from an agent: kill process and clean up every session it
+   * was hosting.
    */
   async disconnectAgent(agentName: string): Promise<void> {
-    const sessionId = this.agentSessions.get(agentName);
-    if (!sessionId) { return; }
+    const sessionIds = this.agentSessions.get(agentName);
+    if (!sessionIds || sessionIds.length === 0) { return; }
 
-    const session = this.sessions.get(sessionId);
+    const session = this.sessions.get(sessionIds[0]);
     if (!session) { return; }
 
     log(`Disconnecting agent ${agentName}`);
@@ -268,15 +355,71 @@ export class SessionManager extends EventEmitter {
 
     this.agentManager.killAgent(session.agentId);
     this.connectionManager.removeConnection(session.agentId);
-    this.sessions.delete(sessionId);
+    for (const sessionId of sessionIds) {
+      this.sessions.delete(sessionId);
+    }
     this.agentSessions.delete(agentName);
 
-    if (this.activeSessionId === sessionId) {
-      this.activeSessionId = null;
+    this.emit('agent-disconnected', agentName);
+    if (this.activeSessionId && sessionIds.includes(this.activeSessionId)) {
+      this.releaseActiveSession(this.activeSessionId);
     }
+  }
 
-    this.emit('agent-disconnected', agentName);
-    this.emit('active-session-changed', null);
+  /**
+   * Make a live session the active one (the one the chat view renders).
+   * No-op if the session is unknown.
+   */
+  setActiveSession(sessionId: string): void {
+    const session = this.sessions.get(sessionId);
+    if (!session) { return; }
+    // Keep the agent's list ordered by recency so re-connecting to the
+    // agent lands on the session the user last looked at. Reordered in
+    // place: re-adding the map key would move the agent to the end.
+    const list = this.agentSessions.get(session.agentName);
+    const index = list?.indexOf(sessionId) ?? -1;
+    if (list && index >= 0) {
+      list.splice(index, 1);
+      list.push(sessionId);
+    }
+    this.activeSessionId = sessionId;
+    this.emit('active-session-changed', sessionId);
+  }
+
+  /**
+   * Called after a session has been torn down. If it was the active one,
+   * fall back to another of `preferAgent`'s sessions, or else to another
+   * connected agent's session, so the chat view keeps showing something
+   * useful; otherwise leave the active session alone.
+   */
+  private releaseActiveSession(sessionId: string, preferAgent?: string): void {
+    if (this.activeSessionId !== sessionId) { return; }
+    const preferred = preferAgent ? this.agentSessions.get(preferAgent)?.at(-1) : undefined;
+    const next = this.agentSessions.values().next();
+    this.activeSessionId = preferred ?? (next.done ? null : next.value.at(-1) ?? null);
+    this.emit('active-session-changed', this.activeSessionId);
+  }
+
+  /** Append a live session to its agent's list (most recent last). */
+  private addAgentSession(agentName: string, sessionId: string): void {
+    const list = this.agentSessions.get(agentName);
+    if (!list) {
+      this.agentSessions.set(agentName, [sessionId]);
+    } else if (!list.includes(sessionId)) {
+      list.push(sessionId);
+    }
+  }
+
+  /** Drop a session from its agent's list, removing the agent when empty. */
+  private removeAgentSession(agentName: string, sessionId: string): void {
+    const list = this.agentSessions.get(agentName);
+    if (!list) { return; }
+    const remaining = list.filter(id => id !== sessionId);
+    if (remaining.length === 0) {
+      this.agentSessions.delete(agentName);
+    } else {
+      this.agentSessions.set(agentName, remaining);
+    }
   }
 
   /**
@@ -297,7 +440,6 @@ export class SessionManager extends EventEmitter {
     } catch (e: any) {
       if (!this.isAuthRequiredError(e)) {
         logError('Failed to create session', e);
-        this.agentManager.killAgent(agentId);
         throw e;
       }
       // Auth required — interactively authenticate, then retry.
@@ -309,7 +451,6 @@ export class SessionManager extends EventEmitter {
         });
       } catch (retryErr) {
         logError('Failed to create session after authentication', retryErr);
-        this.agentManager.killAgent(agentId);
         throw retryErr;
       }
     }
@@ -436,9 +577,22 @@ export class SessionManager extends EventEmitter {
   }
 
   /**
-   * Send a prompt to the active session.
+   * Send a prompt to the active session. Attachments are sent as
+   * `resource_link` or embedded `resource` blocks depending on the agent's
+   * prompt capabilities; `@`-mentions are resolved to content blocks here,
+   * at send time. Errors the agent's last edits introduced are appended
+   * when `acp.diagnosticsAfterWrite` is `appendToPrompt`.
+   *
+   * `onTurnStarted` gets the checkpoint turn opened for the prompt, just
+   * before it is sent; it is not called when building the prompt fails.
    */
-  async sendPrompt(sessionId: string, text: string): Promise<PromptResponse> {
+  async sendPrompt(
+    sessionId: string,
+    text: string,
+    attachments: PromptAttachment[] = [],
+    mentions: PromptMention[] = [],
+    onTurnStarted?: (turn: Turn) => void,
+  ): Promise<PromptResponse> {
     const session = this.sessions.get(sessionId);
     if (!session) {
       throw new Error(`Session not found: ${sessionId}`);
@@ -449,19 +603,33 @@ export class SessionManager extends EventEmitter {
       throw new Error(`No connection for agent: ${session.agentId}`);
     }
 
-    log(`sendPrompt: session=${sessionId}, text="${text.substring(0, 50)}..."`);
+    log(`sendPrompt: session=${sessionId}, text="${text.substring(0, 50)}...", attachments=${attachments.length}, mentions=${mentions.length}`);
 
-    const prompt: ContentBlock[] = [
-      { type: 'text', text },
+    const promptCaps = connInfo.initResponse.agentCapabilities?.promptCapabilities;
+    const prompt = [
+      ...await buildPromptContent(text, attachments, promptCaps),
+      ...await resolveMentions(mentions, promptCaps),
     ];
+    const feedback = this.writeFeedback?.takePromptFeedback(sessionId);
+    if (feedback) {
+      prompt.push({ type: 'text', text: feedback });
+    }
 
-    const response = await connInfo.connection.prompt({
-      sessionId,
-      prompt,
-    });
+    const turn = this.checkpoints?.beginTurn(sessionId, text);
+    if (turn) {
+      onTurnStarted?.(turn);
+    }
+    try {
+      const response = await connInfo.connection.prompt({
+        sessionId,
+        prompt,
+      });
 
-    log(`Prompt response: stopReason=${response.stopReason}`);
-    return response;
+      log(`Prompt response: stopReason=${response.stopReason}`);
+      return response;
+    } finally {
+      this.checkpoints?.endTurn(sessionId);
+    }
   }
 
   /**
@@ -644,15 +812,13 @@ export class SessionManager extends EventEmitter {
    * Spawn + initialize + (optionally authenticate) an agent without creating
    * a session. Caches the capability summary. Idempotent.
    *
-   * NOTE: this never disconnects the currently-active agent — it is safe to
+   * NOTE: this never touches the currently-active session — it is safe to
    * call from the tree view to probe capabilities or list sessions while
-   * the user is chatting with a different agent. Callers that want to
-   * switch the active session (e.g. loadSession) handle the active-agent
-   * teardown themselves.
+   * the user is chatting with a different agent.
    */
   async ensureConnected(agentName: string): Promise<ConnectionInfo> {
     // If we already have a live session with this agent, reuse its connection.
-    const existingSessionId = this.agentSessions.get(agentName);
+    const existingSessionId = this.agentSessions.get(agentName)?.[0];
     if (existingSessionId) {
       const existing = this.sessions.get(existingSessionId);
       if (existing) {
@@ -754,29 +920,16 @@ export class SessionManager extends EventEmitter {
    * to the loaded session on success.
    */
   async loadSession(agentName: string, sessionId: string): Promise<SessionInfo> {
-    // Honor the single-active-session model: if a different agent currently
-    // owns the active session, disconnect it before opening this one.
-    const currentAgent = this.getActiveAgentName();
-    if (currentAgent && currentAgent !== agentName) {
-      await this.disconnectAgent(currentAgent);
-    }
-
     const conn = await this.ensureConnected(agentName);
     const caps = this.capabilities.get(agentName);
     if (!caps?.load) {
       throw new Error(`Agent "${agentName}" does not support session/load.`);
     }
 
-    // If the same agent has a different active session, clear it so the
-    // load can take over as the new active session.
-    const previouslyActive = this.activeSessionId;
-    if (previouslyActive && previouslyActive !== sessionId) {
-      const prevSession = this.sessions.get(previouslyActive);
-      if (prevSession) {
-        this.agentSessions.delete(prevSession.agentName);
-      }
-      this.sessions.delete(previouslyActive);
-      this.activeSessionId = null;
+    // Already live (e.g. loaded earlier in this window) — just switch to it.
+    if (this.sessions.has(sessionId)) {
+      this.setActiveSession(sessionId);
+      return this.sessions.get(sessionId)!;
     }
 
     const cwd = this.getWorkspaceCwd();
@@ -809,7 +962,7 @@ export class SessionManager extends EventEmitter {
     // Mark this session as active up front so handleSessionUpdate forwards
     // the replayed chunks to the webview during the load. Without this,
     // updates arrive before the activeSessionId is set and are dropped.
-    this.agentSessions.set(agentName, sessionId);
+    this.addAgentSession(agentName, sessionId);
     this.activeSessionId = sessionId;
     // Emit active-session-changed BEFORE session-load-start so the webview
     // first repaints from the new session state, then immediately enters
@@ -831,10 +984,9 @@ export class SessionManager extends EventEmitter {
     } catch (e: any) {
       this.loadingSessionIds.delete(sessionId);
       this.sessions.delete(sessionId);
-      this.agentSessions.delete(agentName);
-      if (this.activeSessionId === sessionId) { this.activeSessionId = null; }
+      this.removeAgentSession(agentName, sessionId);
       this.emit('session-load-end', sessionId, agentName, /*ok=*/false);
-      this.emit('active-session-changed', null);
+      this.releaseActiveSession(sessionId, agentName);
 
       // If the agent says the session is gone, prune from local history so
       // it doesn't reappear on next refresh.
@@ -857,26 +1009,16 @@ export class SessionManager extends EventEmitter {
    * Resume an existing session without replaying history (light path).
    */
   async resumeSession(agentName: string, sessionId: string): Promise<SessionInfo> {
-    const currentAgent = this.getActiveAgentName();
-    if (currentAgent && currentAgent !== agentName) {
-      await this.disconnectAgent(currentAgent);
-    }
-
     const conn = await this.ensureConnected(agentName);
     const caps = this.capabilities.get(agentName);
     if (!caps?.resume) {
       throw new Error(`Agent "${agentName}" does not support session/resume.`);
     }
 
-    // If the same agent has a different active session, clear it.
-    const previouslyActive = this.activeSessionId;
-    if (previouslyActive && previouslyActive !== sessionId) {
-      const prevSession = this.sessions.get(previouslyActive);
-      if (prevSession) {
-        this.agentSessions.delete(prevSession.agentName);
-      }
-      this.sessions.delete(previouslyActive);
-      this.activeSessionId = null;
+    // Already live — just switch to it.
+    if (this.sessions.has(sessionId)) {
+      this.setActiveSession(sessionId);
+      return this.sessions.get(sessionId)!;
     }
 
     const cwd = this.getWorkspaceCwd();
@@ -917,7 +1059,7 @@ export class SessionManager extends EventEmitter {
     };
     this.sessions.set(sessionId, sessionInfo);
     this.drainPending(sessionInfo);
-    this.agentSessions.set(agentName, sessionId);
+    this.addAgentSession(agentName, sessionId);
     this.activeSessionId = sessionId;
     this.emit('agent-connected', agentName);
     this.emit('active-session-changed', sessionId);
@@ -962,6 +1104,25 @@ export class SessionManager extends EventEmitter {
     return this.activeSessionId;
   }
 
+  /** All live sessions, grouped by agent in connection order. */
+  getLiveSessions(): SessionInfo[] {
+    const result: SessionInfo[] = [];
+    for (const agentName of this.agentSessions.keys()) {
+      result.push(...this.getAgentSessions(agentName));
+    }
+    return result;
+  }
+
+  /** Live sessions hosted by one agent, least recently activated first. */
+  getAgentSessions(agentName: string): SessionInfo[] {
+    const result: SessionInfo[] = [];
+    for (const sessionId of this.agentSessions.get(agentName) ?? []) {
+      const session = this.sessions.get(sessionId);
+      if (session) { result.push(session); }
+    }
+    return result;
+  }
+
   /** Get the agent name for the current active session. */
   getActiveAgentName(): string | null {
     const session = this.getActiveSession();
@@ -987,9 +1148,10 @@ export class SessionManager extends EventEmitter {
   // --- Cleanup ---
 
   dispose(): void {
-    this.agentManager.killAll();
+    void this.agentManager.killAll();
     this.connectionManager.dispose();
     this.sessions.clear();
     this.agentSessions.clear();
+    this.activeSessionId = null;
   }
 }
@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+
+import { log, logError } from '../utils/Logger';
+
+/** Errors that appeared in a file after an agent wrote it. */
+export interface DiagnosticsReport {
+  sessionId: string;
+  uri: vscode.Uri;
+  diagnostics: vscode.Diagnostic[];
+  /** The errors will be sent with the session's next prompt. */
+  appendToPrompt: boolean;
+}
+
+/** How long to wait for language servers to report on a written file. */
+const DIAGNOSTICS_TIMEOUT_MS = 5000;
+/** Diagnostics count as settled after this long without a change. */
+const DIAGNOSTICS_QUIET_MS = 750;
+
+/**
+ * Post-write checks on agent edits, configured by `acp.formatOnWrite` and
+ * `acp.diagnosticsAfterWrite`:
+ *
+ * - formats each written file with the document formatter;
+ * - waits for language servers to update the file's diagnostics and
+ *   reports errors the write introduced (compared to before it), and with
+ *   `appendToPrompt` keeps those still present for the session's next
+ *   prompt, so the agent can fix its own mistakes.
+ */
+export class WriteFeedback {
+  /** New errors per session, keyed by `uri.toString()`. */
+  private pending: Map<string, Map<string, { uri: vscode.Uri; diagnostics: vscode.Diagnostic[] }>> = new Map();
+  private readonly _onDidReport = new vscode.EventEmitter<DiagnosticsReport>();
+  readonly onDidReport = this._onDidReport.event;
+
+  /** The file's current errors, to compare against after the write. */
+  snapshot(uri: vscode.Uri): vscode.Diagnostic[] {
+    return errorsOf(uri);
+  }
+
+  /**
+   * Run the checks for a file the agent of `sessionId` just wrote.
+   * Formatting finishes before this resolves, so the agent's next read sees
+   * it; diagnostics are collected in the background.
+   */
+  async afterWrite(sessionId: string, uri: vscode.Uri, baseline: vscode.Diagnostic[]): Promise<void> {
+    const config = vscode.workspace.getConfiguration('acp');
+    if (config.get<boolean>('formatOnWrite', false)) {
+      try {
+        await formatDocument(uri);
+      } catch (e) {
+        logError(`WriteFeedback: formatting ${uri.toString(true)} failed`, e);
+      }
+    }
+
+    const mode = config.get<string>('diagnosticsAfterWrite', 'off');
+    if (mode === 'off') {
+      return;
+    }
+    void this.collectDiagnostics(sessionId, uri, baseline, mode === 'appendToPrompt')
+      .catch(e => logError(`WriteFeedback: collecting diagnostics for ${uri.toString(true)} failed`, e));
+  }
+
+  /**
+   * Text describing the errors the agent introduced that are still
+   * present, to append to the session's next prompt; clears them.
+   */
+  takePromptFeedback(sessionId: string): string | undefined {
+    const files = this.pending.get(sessionId);
+    this.pending.delete(sessionId);
+    if (!files || vscode.workspace.getConfiguration('acp').get<string>('diagnosticsAfterWrite', 'off') !== 'appendToPrompt') {
+      return undefined;
+    }
+    const lines: string[] = [];
+    for (const { uri, diagnostics } of files.values()) {
+      const current = errorsOf(uri);
+      for (const diagnostic of diagnostics.filter(d => current.some(c => sameDiagnostic(c, d)))) {
+        lines.push(describeDiagnostic(uri, diagnostic));
+      }
+    }
+    if (lines.length === 0) {
+      return undefined;
+    }
+    return `Errors reported in files you edited during the last turn:\n${lines.join('\n')}`;
+  }
+
+  /** Forget pending errors of sessions that are no longer live. */
+  prune(liveSessionIds: string[]): void {
+    for (const sessionId of [...this.pending.keys()]) {
+      if (!liveSessionIds.includes(sessionId)) {
+        this.pending.delete(sessionId);
+      }
+    }
+  }
+
+  dispose(): void {
+    this.pending.clear();
+    this._onDidReport.dispose();
+  }
+
+  private async collectDiagnostics(
+    sessionId: string,
+    uri: vscode.Uri,
+    baseline: vscode.Diagnostic[],
+    appendToPrompt: boolean,
+  ): Promise<void> {
+    // Language servers usually only check documents that are open.
+    await vscode.workspace.openTextDocument(uri);
+    await waitForDiagnostics(uri);
+
+    const introduced = errorsOf(uri).filter(d => !baseline.some(b => sameDiagnostic(b, d)));
+    const files = this.pending.get(sessionId) ?? new Map();
+    if (introduced.length === 0) {
+      files.delete(uri.toString());
+      return;
+    }
+    files.set(uri.toString(), { uri, diagnostics: introduced });
+    this.pending.set(sessionId, files);
+    log(`WriteFeedback: ${introduced.length} new error(s) in ${uri.toString(true)}`);
+    this._onDidReport.fire({ sessionId, uri, diagnostics: introduced, appendToPrompt });
+  }
+}
+
+/** `file:line:column message (source code)`, with 1-based positions. */
+export function describeDiagnostic(uri: vscode.Uri, diagnostic: vscode.Diagnostic): string {
+  const { line, character } = diagnostic.range.start;
+  const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+  const origin = [diagnostic.source, code].filter(x => x !== undefined && x !== '').join(' ');
+  return `${vscode.workspace.asRelativePath(uri)}:${line + 1}:${character + 1} ${diagnostic.message}`
+    + (origin ? ` (${origin})` : '');
+}
+
+function errorsOf(uri: vscode.Uri): vscode.Diagnostic[] {
+  return vscode.languages.getDiagnostics(uri).filter(d => d.severity === vscode.DiagnosticSeverity.Error);
+}
+
+/** Ranges are ignored: edits above an existing error move it. */
+function sameDiagnostic(a: vscode.Diagnostic, b: vscode.Diagnostic): boolean {
+  const codeOf = (d: vscode.Diagnostic) => typeof d.code === 'object' ? d.code.value : d.code;
+  return a.message === b.message && a.source === b.source && codeOf(a) === codeOf(b);
+}
+
+/**
+ * Resolve once the file's diagnostics have changed and then been quiet for
+ * {@link DIAGNOSTICS_QUIET_MS}, or after {@link DIAGNOSTICS_TIMEOUT_MS}.
+ */
+function waitForDiagnostics(uri: vscode.Uri): Promise<void> {
+  return new Promise(resolve => {
+    const key = uri.toString();
+    let quietTimer: ReturnType<typeof setTimeout> | undefined;
+    const finish = () => {
+      clearTimeout(quietTimer);
+      clearTimeout(timeout);
+      listener.dispose();
+      resolve();
+    };
+    const timeout = setTimeout(finish, DIAGNOSTICS_TIMEOUT_MS);
+    const listener = vscode.languages.onDidChangeDiagnostics(e => {
+      if (e.uris.some(u => u.toString() === key)) {
+        clearTimeout(quietTimer);
+        quietTimer = setTimeout(finish, DIAGNOSTICS_QUIET_MS);
+      }
+    });
+  });
+}
+
+/** Apply the document formatter; a file that was saved is saved again. */
+async function formatDocument(uri: vscode.Uri): Promise<void> {
+  const doc = await vscode.workspace.openTextDocument(uri);
+  const editorConfig = vscode.workspace.getConfiguration('editor', doc);
+  const edits = await vscode.commands.executeCommand<vscode.TextEdit[] | undefined>(
+    'vscode.executeFormatDocumentProvider',
+    uri,
+    {
+      tabSize: editorConfig.get<number>('tabSize', 4),
+      insertSpaces: editorConfig.get<boolean>('insertSpaces', true),
+    } satisfies vscode.FormattingOptions,
+  );
+  if (!edits || edits.length === 0) {
+    return;
+  }
+  const wasDirty = doc.isDirty;
+  const edit = new vscode.WorkspaceEdit();
+  edit.set(uri, edits);
+  if (await vscode.workspace.applyEdit(edit) && !wasDirty && !doc.isUntitled) {
+    await doc.save();
+  }
+  log(`WriteFeedback: formatted ${uri.toString(true)}`);
+}
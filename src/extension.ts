@@ -4,15 +4,37 @@ import { AgentManager } from './core/AgentManager';
 import { ConnectionManager } from './core/ConnectionManager';
 import { SessionManager } from './core/SessionManager';
 import { SessionHistoryStore } from './core/SessionHistoryStore';
+import { PendingChanges, PendingChange } from './core/PendingChanges';
+import { Checkpoints } from './core/Checkpoints';
+import { FileAccessPolicy } from './core/FileAccessPolicy';
+import { CommandPolicy } from './core/CommandPolicy';
+import { WriteFeedback, describeDiagnostic } from './core/WriteFeedback';
 import { SessionUpdateHandler } from './handlers/SessionUpdateHandler';
+import { TerminalHandler } from './handlers/TerminalHandler';
 import { SessionTreeProvider } from './ui/SessionTreeProvider';
 import { StatusBarManager } from './ui/StatusBarManager';
 import { ChatWebviewProvider } from './ui/ChatWebviewProvider';
+import { DiffContentProvider } from './ui/DiffContentProvider';
+import { PendingChangesTreeProvider } from './ui/PendingChangesTreeProvider';
+import { CheckpointsTreeProvider } from './ui/CheckpointsTreeProvider';
+import { TerminalsTreeProvider, TerminalTreeItem } from './ui/TerminalsTreeProvider';
+import { findSelectionEditor, selectionMention } from './core/PromptMentions';
 import { getAgentNames } from './config/AgentConfig';
+import { readCurrentText } from './handlers/FileSystemHandler';
+import { computeHunks, describeHunk } from './utils/LineDiff';
 import { fetchRegistry } from './config/RegistryClient';
 import { log, logError, disposeChannels, getOutputChannel, getTrafficChannel } from './utils/Logger';
 import { initTelemetry, sendEvent } from './utils/TelemetryManager';
 
+/** Kills agent and terminal processes; awaited by {@link deactivate}. */
+let stopProcesses: (() => Promise<unknown>) | undefined;
+
+/**
+ * SIGTERM grace period on shutdown. VS Code gives `deactivate` about 5s in
+ * all, and the SIGKILL escalation has to fit in it.
+ */
+const SHUTDOWN_KILL_GRACE_MS = 1500;
+
 export function activate(context: vscode.ExtensionContext): void {
   log('ACP Client extension activating...');
 
@@ -22,8 +44,31 @@ export function activate(context: vscode.ExtensionContext): void {
 
   // --- Core services ---
   const sessionUpdateHandler = new SessionUpdateHandler();
+  const fileAccessPolicy = new FileAccessPolicy();
+  context.subscriptions.push(fileAccessPolicy);
+  const commandPolicy = new CommandPolicy(fileAccessPolicy);
+  context.subscriptions.push(commandPolicy);
+  const terminalHandler = new TerminalHandler(commandPolicy);
+  context.subscriptions.push({ dispose: () => terminalHandler.dispose() });
+  const checkpoints = new Checkpoints();
+  context.subscriptions.push(checkpoints);
+  const writeFeedback = new WriteFeedback();
+  context.subscriptions.push(writeFeedback);
+  const pendingChanges = new PendingChanges(checkpoints, writeFeedback);
+  context.subscriptions.push(pendingChanges);
   const agentManager = new AgentManager();
-  const connectionManager = new ConnectionManager(sessionUpdateHandler);
+  stopProcesses = () => Promise.all([
+    agentManager.killAll(SHUTDOWN_KILL_GRACE_MS),
+    terminalHandler.dispose(SHUTDOWN_KILL_GRACE_MS),
+  ]);
+  const connectionManager = new ConnectionManager(
+    sessionUpdateHandler,
+    terminalHandler,
+    pendingChanges,
+    checkpoints,
+    fileAccessPolicy,
+    writeFeedback,
+  );
   const sessionManager = new SessionManager(
     agentManager,
     connectionManager,
@@ -35,6 +80,8 @@ export function activate(context: vscode.ExtensionContext): void {
   // session/list).
   const historyStore = new SessionHistoryStore(context.workspaceState);
   sessionManager.setHistoryStore(historyStore);
+  sessionManager.setCheckpoints(checkpoints);
+  sessionManager.setWriteFeedback(writeFeedback);
   context.subscriptions.push({ dispose: () => historyStore.dispose() });
 
   // --- UI ---
@@ -44,10 +91,50 @@ export function activate(context: vscode.ExtensionContext): void {
     treeDataProvider: sessionTreeProvider,
   });
 
+  const diffContentProvider = new DiffContentProvider();
+  context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(
+    DiffContentProvider.scheme,
+    diffContentProvider,
+  ));
+
+  // Agent writes staged for review (acp.reviewWrites)
+  const pendingChangesView = vscode.window.createTreeView('acp-pending-changes', {
+    treeDataProvider: new PendingChangesTreeProvider(pendingChanges),
+  });
+  context.subscriptions.push(pendingChangesView);
+  pendingChanges.onDidChange(() => {
+    const count = pendingChanges.size;
+    pendingChangesView.badge = count > 0
+      ? { value: count, tooltip: `${count} agent change(s) awaiting review` }
+      : undefined;
+    vscode.commands.executeCommand('setContext', 'acp.hasPendingChanges', count > 0);
+  });
+
+  // Per-turn checkpoints of agent writes
+  const checkpointsView = vscode.window.createTreeView('acp-checkpoints', {
+    treeDataProvider: new CheckpointsTreeProvider(checkpoints, sessionManager),
+  });
+  context.subscriptions.push(checkpointsView);
+  checkpoints.onDidChange(() => {
+    vscode.commands.executeCommand('setContext', 'acp.hasCheckpoints', checkpoints.getSessionIds().length > 0);
+  });
+
+  // Commands agents run via terminal/create
+  const terminalsTreeProvider = new TerminalsTreeProvider(terminalHandler, sessionManager);
+  const terminalsView = vscode.window.createTreeView('acp-terminals', {
+    treeDataProvider: terminalsTreeProvider,
+  });
+  context.subscriptions.push(terminalsTreeProvider, terminalsView);
+  terminalHandler.on('change', () => {
+    vscode.commands.executeCommand('setContext', 'acp.hasTerminals', terminalHandler.getTerminals().length > 0);
+  });
+
   const chatWebviewProvider = new ChatWebviewProvider(
     context.extensionUri,
     sessionManager,
     sessionUpdateHandler,
+    terminalHandler,
+    diffContentProvider,
   );
   const chatViewRegistration = vscode.window.registerWebviewViewProvider(
     ChatWebviewProvider.viewType,
@@ -62,32 +149,71 @@ export function activate(context: vscode.ExtensionContext): void {
     chatWebviewProvider.notifyActiveSessionChanged();
   });
 
-  // Clear chat when new conversation is started
-  sessionManager.on('clear-chat', () => {
-    chatWebviewProvider.clearChat();
+  // Editor-tab chat panels follow their own session, not the active one.
+  sessionManager.on('agent-connected', () => chatWebviewProvider.notifySessionsChanged());
+  sessionManager.on('agent-disconnected', () => chatWebviewProvider.notifySessionsChanged());
+  sessionManager.on('session-closed', () => chatWebviewProvider.notifySessionsChanged());
+
+  // Tell the user when the sandbox refuses an agent file request.
+  fileAccessPolicy.onDidDeny(violation => {
+    chatWebviewProvider.notifyWarning(
+      violation.sessionId,
+      `Blocked agent ${violation.mode}: ${violation.reason}. Adjust the acp.fileAccess settings to allow it.`,
+    );
   });
 
-  // Forward mode/model changes to webview
-  sessionManager.on('mode-changed', (_sessionId: string, _modeId: string) => {
-    const session = sessionManager.getActiveSession();
+  // ...and when the command policy refuses a terminal command.
+  commandPolicy.onDidDeny(violation => {
+    chatWebviewProvider.notifyWarning(
+      violation.sessionId,
+      `Blocked agent command "${violation.commandLine}": ${violation.reason}. Adjust the acp.terminal settings to allow it.`,
+    );
+  });
+
+  // Report errors introduced by agent writes in that session's chat.
+  writeFeedback.onDidReport(report => {
+    const lines = report.diagnostics.map(d => describeDiagnostic(report.uri, d));
+    const suffix = report.appendToPrompt ? '\nThese will be sent to the agent with your next prompt.' : '';
+    chatWebviewProvider.notifyWarning(
+      report.sessionId,
+      `New errors after the agent edited ${vscode.workspace.asRelativePath(report.uri)}:\n${lines.join('\n')}${suffix}`,
+    );
+  });
+
+  // Checkpoints and pending write feedback only cover live sessions.
+  const pruneSessionState = () => {
+    const live = sessionManager.getLiveSessions().map(s => s.sessionId);
+    checkpoints.prune(live);
+    pendingChanges.prune(live);
+    writeFeedback.prune(live);
+    commandPolicy.prune(live);
+    terminalHandler.prune(live);
+  };
+  sessionManager.on('agent-disconnected', pruneSessionState);
+  sessionManager.on('session-closed', pruneSessionState);
+
+  // Forward mode/model changes to the chat views showing that session (the
+  // sidebar picks up other sessions' state when switched to)
+  sessionManager.on('mode-changed', (sessionId: string, _modeId: string) => {
+    const session = sessionManager.getSession(sessionId);
     if (session?.modes) {
-      chatWebviewProvider.notifyModesUpdate(session.modes);
+      chatWebviewProvider.notifyModesUpdate(sessionId, session.modes);
     }
   });
 
-  sessionManager.on('model-changed', (_sessionId: string, _modelId: string) => {
-    const session = sessionManager.getActiveSession();
+  sessionManager.on('model-changed', (sessionId: string, _modelId: string) => {
+    const session = sessionManager.getSession(sessionId);
     if (session?.models) {
-      chatWebviewProvider.notifyModelsUpdate(session.models);
+      chatWebviewProvider.notifyModelsUpdate(sessionId, session.models);
     }
   });
 
   // Session-load replay state — drive the webview overlay.
-  sessionManager.on('session-load-start', () => {
-    chatWebviewProvider.notifyLoadSessionStart();
+  sessionManager.on('session-load-start', (sessionId: string) => {
+    chatWebviewProvider.notifyLoadSessionStart(sessionId);
   });
-  sessionManager.on('session-load-end', (_sessionId: string, _agentName: string, ok: boolean) => {
-    chatWebviewProvider.notifyLoadSessionEnd(ok);
+  sessionManager.on('session-load-end', (sessionId: string, _agentName: string, ok: boolean) => {
+    chatWebviewProvider.notifyLoadSessionEnd(sessionId, ok);
     if (ok) {
       // The loadSession response carries modes/models/configOptions for the
       // restored session. Re-send the state so the pickers pick them up
@@ -99,8 +225,7 @@ export function activate(context: vscode.ExtensionContext): void {
 
   // Session metadata (title) update — forward to chat banner.
   sessionManager.on('session-info-changed', (sessionId: string, update: any) => {
-    if (sessionId !== sessionManager.getActiveSessionId()) { return; }
-    chatWebviewProvider.notifySessionInfoUpdate(update?.title);
+    chatWebviewProvider.notifySessionInfoUpdate(sessionId, update?.title);
   });
 
   // --- Commands ---
@@ -130,16 +255,12 @@ export function activate(context: vscode.ExtensionContext): void {
       if (!agentName) { return; }
     }
 
-    // If switching agents and there's chat content, confirm
-    const currentAgent = sessionManager.getActiveAgentName();
-    if (currentAgent && currentAgent !== agentName && chatWebviewProvider.hasChatContent) {
-      const choice = await vscode.window.showWarningMessage(
-        `Switch to ${agentName}? This will disconnect ${currentAgent} and clear the chat history.`,
-        'Switch Agent',
-        'Cancel',
-      );
-      if (choice !== 'Switch Agent') { return; }
-      chatWebviewProvider.clearChat();
+    // Already connected — just bring its session to the front. Other
+    // connected agents keep running in the background.
+    if (sessionManager.isAgentConnected(agentName)) {
+      await sessionManager.connectToAgent(agentName);
+      vscode.commands.executeCommand('acp-chat.focus');
+      return;
     }
 
     try {
@@ -159,36 +280,28 @@ export function activate(context: vscode.ExtensionContext): void {
     }
   });
 
-  // New Conversation (disconnect + clear chat + reconnect same agent)
-  const newConversationCmd = vscode.commands.registerCommand('acp.newConversation', async () => {
-    const activeSession = sessionManager.getActiveSession();
-    if (!activeSession) {
+  // New Conversation (opens another session on the same agent connection;
+  // the previous session stays live and can be switched back to)
+  const newConversationCmd = vscode.commands.registerCommand('acp.newConversation', async (item?: any) => {
+    const agentName: string | undefined = item?.agentName || sessionManager.getActiveAgentName() || undefined;
+    if (!agentName) {
       // No active agent — fall back to connect
       await vscode.commands.executeCommand('acp.connectAgent');
       return;
     }
 
-    // Confirm if there's existing chat content
-    if (chatWebviewProvider.hasChatContent) {
-      const choice = await vscode.window.showWarningMessage(
-        'Start a new conversation? This will clear the current chat history.',
-        'New Conversation',
-        'Cancel',
-      );
-      if (choice !== 'New Conversation') { return; }
-    }
-
     try {
       await vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
-          title: `Starting new conversation with ${activeSession.agentDisplayName}...`,
+          title: `Starting new conversation with ${agentName}...`,
           cancellable: false,
         },
         async () => {
-          await sessionManager.newConversation();
+          await sessionManager.newConversation(agentName);
         },
       );
+      vscode.commands.executeCommand('acp-chat.focus');
     } catch (e: any) {
       logError('Failed to start new conversation', e);
       vscode.window.showErrorMessage(`Failed to start new conversation: ${e.message}`);
@@ -211,6 +324,21 @@ export function activate(context: vscode.ExtensionContext): void {
     vscode.commands.executeCommand('acp-chat.focus');
   });
 
+  // Open Chat in Editor — an editor tab pinned to one session (the clicked
+  // live session / agent in the tree, or the active session)
+  const openChatInEditorCmd = vscode.commands.registerCommand('acp.openChatInEditor', (arg?: any) => {
+    let sessionId: string | null | undefined = arg?.sessionId;
+    if (!sessionId && arg?.agentName) {
+      sessionId = sessionManager.getAgentSessions(arg.agentName).at(-1)?.sessionId;
+    }
+    sessionId = sessionId || sessionManager.getActiveSessionId();
+    if (!sessionId || !sessionManager.getSession(sessionId)) {
+      vscode.window.showInformationMessage('No session open. Connect to an agent first.');
+      return;
+    }
+    chatWebviewProvider.openChatInEditor(sessionId);
+  });
+
   // Send Prompt (from keybinding — just focus chat)
   const sendPromptCmd = vscode.commands.registerCommand('acp.sendPrompt', async () => {
     vscode.commands.executeCommand('acp-chat.focus');
@@ -325,22 +453,14 @@ export function activate(context: vscode.ExtensionContext): void {
       return;
     }
 
-    // No-op if it is already the active session.
-    if (sessionManager.getActiveSessionId() === sessionId) {
+    // Already live — just show it. Otherwise the session is opened next to
+    // the agent's other live sessions on the same connection.
+    if (sessionManager.getSession(sessionId)) {
+      sessionManager.setActiveSession(sessionId);
       vscode.commands.executeCommand('acp-chat.focus');
       return;
     }
 
-    // Confirm if there's existing chat content with a different active session.
-    if (chatWebviewProvider.hasChatContent) {
-      const choice = await vscode.window.showWarningMessage(
-        'Open a different session? This will replace the current chat history.',
-        'Open Session',
-        'Cancel',
-      );
-      if (choice !== 'Open Session') { return; }
-    }
-
     try {
       await vscode.commands.executeCommand('acp-chat.focus');
       // Decide load vs resume based on capabilities. Prefer load (replays
@@ -385,6 +505,22 @@ export function activate(context: vscode.ExtensionContext): void {
     vscode.window.showInformationMessage(`Copied session ID: ${sessionId}`);
   });
 
+  // Close one live session (right-click on a live session, or the active one
+  // from the palette). Stops the agent only if it was its last session.
+  const closeSessionCmd = vscode.commands.registerCommand('acp.closeSession', async (arg?: any) => {
+    const sessionId: string | null = arg?.sessionId || sessionManager.getActiveSessionId();
+    if (!sessionId) {
+      vscode.window.showInformationMessage('No session open.');
+      return;
+    }
+    try {
+      await sessionManager.closeSession(sessionId);
+    } catch (e: any) {
+      logError('Failed to close session', e);
+      vscode.window.showErrorMessage(`Failed to close session: ${e.message}`);
+    }
+  });
+
   // Forget a single locally-cached session (right-click on a local session).
   const forgetSessionCmd = vscode.commands.registerCommand('acp.forgetSession', async (arg?: any) => {
     const agentName = arg?.agentName;
@@ -393,6 +529,215 @@ export function activate(context: vscode.ExtensionContext): void {
     historyStore.forget(agentName, sessionId);
   });
 
+  // --- Pending changes (review-before-write) ---
+
+  /** The change a command was invoked on, or one picked from a list. */
+  const pickPendingChange = async (arg?: any): Promise<PendingChange | undefined> => {
+    if (arg?.change) {
+      return pendingChanges.get(arg.change.uri);
+    }
+    const all = pendingChanges.getAll();
+    if (all.length === 0) {
+      vscode.window.showInformationMessage('No pending agent changes.');
+      return undefined;
+    }
+    if (all.length === 1) {
+      return all[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+      all.map(change => ({ label: vscode.workspace.asRelativePath(change.uri), change })),
+      { placeHolder: 'Select a pending change' },
+    );
+    return picked?.change;
+  };
+
+  /** Ask before overwriting a file the user edited after the agent's write was staged. */
+  const confirmOverwrite = async (change: PendingChange): Promise<boolean> => {
+    if (!await pendingChanges.isStale(change)) {
+      return true;
+    }
+    const choice = await vscode.window.showWarningMessage(
+      `${vscode.workspace.asRelativePath(change.uri)} changed since the agent's write was staged. Overwrite it?`,
+      { modal: true },
+      'Overwrite',
+    );
+    return choice === 'Overwrite';
+  };
+
+  const openPendingChangeCmd = vscode.commands.registerCommand('acp.openPendingChange', async (arg?: any) => {
+    const change = await pickPendingChange(arg);
+    if (change) {
+      await diffContentProvider.showDiff(change.uri, change.original, change.proposed);
+    }
+  });
+
+  const acceptPendingChangeCmd = vscode.commands.registerCommand('acp.acceptPendingChange', async (arg?: any) => {
+    const change = await pickPendingChange(arg);
+    if (!change || !await confirmOverwrite(change)) { return; }
+    try {
+      await pendingChanges.accept(change);
+    } catch (e: any) {
+      logError('Failed to apply pending change', e);
+      vscode.window.showErrorMessage(`Failed to apply change: ${e.message}`);
+    }
+  });
+
+  const acceptPendingHunksCmd = vscode.commands.registerCommand('acp.acceptPendingHunks', async (arg?: any) => {
+    const change = await pickPendingChange(arg);
+    if (!change) { return; }
+    if (change.original === null) {
+      vscode.window.showInformationMessage('New files can only be accepted or rejected as a whole.');
+      return;
+    }
+    const items = computeHunks(change.original, change.proposed).map(hunk => ({
+      label: describeHunk(hunk),
+      detail: [...hunk.oldLines.map(l => `- ${l}`), ...hunk.newLines.map(l => `+ ${l}`)].join('  ').slice(0, 200),
+      picked: true,
+      hunk,
+    }));
+    const selected = await vscode.window.showQuickPick(items, {
+      canPickMany: true,
+      placeHolder: 'Select the hunks to write; the rest stay pending',
+      title: `Accept Hunks: ${vscode.workspace.asRelativePath(change.uri)}`,
+    });
+    if (!selected || selected.length === 0 || !await confirmOverwrite(change)) { return; }
+    try {
+      await pendingChanges.acceptHunks(change, selected.map(item => item.hunk));
+    } catch (e: any) {
+      logError('Failed to apply pending hunks', e);
+      vscode.window.showErrorMessage(`Failed to apply change: ${e.message}`);
+    }
+  });
+
+  const rejectPendingChangeCmd = vscode.commands.registerCommand('acp.rejectPendingChange', async (arg?: any) => {
+    const change = await pickPendingChange(arg);
+    if (change) {
+      pendingChanges.reject(change);
+    }
+  });
+
+  const acceptAllPendingChangesCmd = vscode.commands.registerCommand('acp.acceptAllPendingChanges', async () => {
+    for (const change of pendingChanges.getAll()) {
+      if (!await confirmOverwrite(change)) { continue; }
+      try {
+        await pendingChanges.accept(change);
+      } catch (e: any) {
+        logError('Failed to apply pending change', e);
+        vscode.window.showErrorMessage(`Failed to apply change to ${vscode.workspace.asRelativePath(change.uri)}: ${e.message}`);
+      }
+    }
+  });
+
+  const rejectAllPendingChangesCmd = vscode.commands.registerCommand('acp.rejectAllPendingChanges', async () => {
+    const count = pendingChanges.size;
+    if (count === 0) { return; }
+    const confirm = await vscode.window.showWarningMessage(
+      `Discard ${count} pending agent change(s)?`,
+      { modal: true },
+      'Discard',
+    );
+    if (confirm !== 'Discard') { return; }
+    for (const change of pendingChanges.getAll()) {
+      pendingChanges.reject(change);
+    }
+  });
+
+  // --- Checkpoints ---
+
+  // Revert to before a turn: from a chat checkpoint row ({ sessionId, turn }),
+  // a turn in the Checkpoints view, or the palette (pick a turn).
+  const revertToTurnCmd = vscode.commands.registerCommand('acp.revertToTurn', async (arg?: any) => {
+    const sessionId: string | null = arg?.turn?.sessionId ?? arg?.sessionId ?? sessionManager.getActiveSessionId();
+    let index: number | undefined = typeof arg?.turn === 'number' ? arg.turn : arg?.turn?.index;
+    if (!sessionId) {
+      vscode.window.showInformationMessage('No session open.');
+      return;
+    }
+    if (index === undefined) {
+      const turns = checkpoints.getTurns(sessionId).reverse();
+      if (turns.length === 0) {
+        vscode.window.showInformationMessage('No agent file changes to revert in this session.');
+        return;
+      }
+      const picked = await vscode.window.showQuickPick(
+        turns.map(turn => ({
+          label: `Turn ${turn.index}`,
+          description: turn.prompt,
+          detail: [...turn.files.values()].map(f => vscode.workspace.asRelativePath(f.uri)).join(', '),
+          index: turn.index,
+        })),
+        { placeHolder: 'Revert the workspace to before which turn?' },
+      );
+      if (!picked) { return; }
+      index = picked.index;
+    }
+
+    const files = checkpoints.getRevertSet(sessionId, index);
+    if (files.length === 0) {
+      vscode.window.showInformationMessage(`Turn ${index} has already been reverted.`);
+      return;
+    }
+    const confirm = await vscode.window.showWarningMessage(
+      `Revert ${files.length} file(s) to their state before turn ${index}?`,
+      {
+        modal: true,
+        detail: files.map(f => vscode.workspace.asRelativePath(f.uri) + (f.before === null ? ' (delete)' : '')).join('\n'),
+      },
+      'Revert',
+    );
+    if (confirm !== 'Revert') { return; }
+
+    try {
+      await checkpoints.revertTo(sessionId, index);
+      chatWebviewProvider.notifyTurnsReverted(sessionId, index);
+      sendEvent('checkpoint/reverted', {}, { fileCount: files.length });
+    } catch (e: any) {
+      logError('Failed to revert turn', e);
+      vscode.window.showErrorMessage(`Failed to revert: ${e.message}`);
+    }
+  });
+
+  // Compare a checkpointed file with its current content
+  const openCheckpointDiffCmd = vscode.commands.registerCommand('acp.openCheckpointDiff', async (arg?: any) => {
+    const snapshot = arg?.snapshot;
+    if (!snapshot) { return; }
+    const current = await readCurrentText(snapshot.uri);
+    await diffContentProvider.showDiff(snapshot.uri, snapshot.before, current ?? '');
+  });
+
+  // Terminals view actions
+  const focusTerminalCmd = vscode.commands.registerCommand('acp.focusTerminal', (item?: TerminalTreeItem) => {
+    if (item && !terminalHandler.showTerminal(item.info.id)) {
+      vscode.window.showInformationMessage('This terminal was closed. Use Copy Terminal Output to see what the command printed.');
+    }
+  });
+
+  const killTerminalCmd = vscode.commands.registerCommand('acp.killTerminal', async (item?: TerminalTreeItem) => {
+    if (item) {
+      await terminalHandler.stopTerminal(item.info.id);
+    }
+  });
+
+  const rerunTerminalCmd = vscode.commands.registerCommand('acp.rerunTerminal', (item?: TerminalTreeItem) => {
+    if (!item) { return; }
+    // Runs in a regular terminal under the user's control, not the agent's.
+    const terminal = vscode.window.createTerminal({
+      name: `ACP rerun: ${item.info.commandLine}`,
+      cwd: item.info.cwd,
+      env: item.info.env,
+    });
+    terminal.show();
+    terminal.sendText(item.info.commandLine);
+  });
+
+  const copyTerminalOutputCmd = vscode.commands.registerCommand('acp.copyTerminalOutput', async (item?: TerminalTreeItem) => {
+    if (!item) { return; }
+    const output = terminalHandler.getOutput(item.info.id);
+    if (output === undefined) { return; }
+    await vscode.env.clipboard.writeText(output);
+    vscode.window.showInformationMessage(`Copied the output of "${item.info.commandLine}".`);
+  });
+
   // Add Agent Configuration
   const addAgentCmd = vscode.commands.registerCommand('acp.addAgent', async () => {
     const name = await vscode.window.showInputBox({
@@ -461,13 +806,24 @@ export function activate(context: vscode.ExtensionContext): void {
   // Attach File
   const attachFileCmd = vscode.commands.registerCommand('acp.attachFile', async () => {
     const uris = await vscode.window.showOpenDialog({
-      canSelectMany: false,
+      canSelectMany: true,
       openLabel: 'Attach',
-      title: 'Attach File to Chat',
+      title: 'Attach Files to Chat',
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
     });
     if (uris && uris.length > 0) {
-      chatWebviewProvider.attachFile(uris[0]);
+      chatWebviewProvider.attachFiles(uris);
+    }
+  });
+
+  // Send Selection to Agent
+  const sendSelectionCmd = vscode.commands.registerCommand('acp.sendSelection', () => {
+    const editor = findSelectionEditor();
+    if (!editor) {
+      vscode.window.showInformationMessage('Select some code first.');
+      return;
     }
+    chatWebviewProvider.addMention(selectionMention(editor));
   });
 
   // Browse Registry
@@ -502,6 +858,7 @@ export function activate(context: vscode.ExtensionContext): void {
     newConversationCmd,
     disconnectAgentCmd,
     openChatCmd,
+    openChatInEditorCmd,
     sendPromptCmd,
     cancelTurnCmd,
     restartAgentCmd,
@@ -514,10 +871,24 @@ export function activate(context: vscode.ExtensionContext): void {
     openSessionCmd,
     loadMoreSessionsCmd,
     copySessionIdCmd,
+    closeSessionCmd,
     forgetSessionCmd,
     addAgentCmd,
     removeAgentCmd,
     attachFileCmd,
+    sendSelectionCmd,
+    openPendingChangeCmd,
+    acceptPendingChangeCmd,
+    acceptPendingHunksCmd,
+    rejectPendingChangeCmd,
+    acceptAllPendingChangesCmd,
+    rejectAllPendingChangesCmd,
+    revertToTurnCmd,
+    openCheckpointDiffCmd,
+    focusTerminalCmd,
+    killTerminalCmd,
+    rerunTerminalCmd,
+    copyTerminalOutputCmd,
     browseRegistryCmd,
     {
       dispose: () => {
@@ -534,6 +905,10 @@ export function activate(context: vscode.ExtensionContext): void {
   log('ACP Client extension activated.');
 }
 
-export function deactivate(): void {
+export async function deactivate(): Promise<void> {
+  // Wait for agents, terminal commands and their children to exit, so
+  // none are left running after the window closes.
+  await stopProcesses?.();
+  stopProcesses = undefined;
   log('ACP Client extension deactivated.');
 }
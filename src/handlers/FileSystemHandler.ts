@@ -1,5 +1,17 @@
 import * as vscode from 'vscode';
+import { createReadStream } from 'node:fs';
 import { log, logError } from '../utils/Logger';
+import type { PendingChanges } from '../core/PendingChanges';
+import type { Checkpoints } from '../core/Checkpoints';
+import type { FileAccessPolicy } from '../core/FileAccessPolicy';
+import type { WriteFeedback } from '../core/WriteFeedback';
+import { findOpenDocument, toWorkspaceUri } from '../utils/AgentPaths';
+import { computeHunks, hunkToTextEdit, lineStartOffsets } from '../utils/LineDiff';
+import { collectLineRange, LineRangeResult } from '../utils/LineRange';
+import {
+  TextFormat, createStreamDecoder, decodeText, detectEol, encodeText, isBinary, normalizeEol,
+} from '../utils/TextEncoding';
+import { RequestError } from '@agentclientprotocol/sdk';
 
 import type {
   ReadTextFileRequest,
@@ -10,43 +22,73 @@ import type {
 
 /**
  * Handles ACP file system requests using VS Code's workspace filesystem API.
- * This gives us access to unsaved editor buffers automatically.
+ * This gives us access to unsaved editor buffers automatically. Agent
+ * paths are mapped onto the workspace folders' URIs, so remote and
+ * virtual workspaces and `untitled:` buffers work too. Files keep their
+ * encoding, BOM and line endings across reads and writes, and binary
+ * files are refused instead of being returned as text.
+ *
+ * Every request is checked against the {@link FileAccessPolicy} first.
+ * Direct writes snapshot the file into the current {@link Checkpoints}
+ * turn first and get the {@link WriteFeedback} checks (formatting,
+ * diagnostics) afterwards. With `acp.reviewWrites` on, writes are staged in
+ * {@link PendingChanges} instead, and reads of a staged file return the
+ * agent's proposal so the agent sees its own edits.
  */
 export class FileSystemHandler {
+  constructor(
+    private readonly pendingChanges: PendingChanges,
+    private readonly checkpoints: Checkpoints,
+    private readonly policy: FileAccessPolicy,
+    private readonly writeFeedback: WriteFeedback,
+  ) {}
 
   /**
    * Read a text file. Uses VS Code API to include unsaved editor content.
+   * Local files on disk are streamed, stopping once the requested
+   * `line`/`limit` range is read. Output is capped at `acp.maxReadSizeKB`,
+   * with a notice telling the agent where to continue.
    */
   async readTextFile(params: ReadTextFileRequest): Promise<ReadTextFileResponse> {
     log(`readTextFile: ${params.path}`);
+    await this.policy.check(params.sessionId, params.path, 'read');
 
     try {
-      const uri = vscode.Uri.file(params.path);
+      const uri = toWorkspaceUri(params.path);
 
       // Check if the file is open in an editor with unsaved changes
-      const openDoc = vscode.workspace.textDocuments.find(
-        doc => doc.uri.fsPath === uri.fsPath
-      );
+      const openDoc = findOpenDocument(uri);
 
-      let content: string;
-      if (openDoc) {
-        content = openDoc.getText();
+      const staged = this.pendingChanges.get(uri);
+
+      const maxKB = vscode.workspace.getConfiguration('acp').get<number>('maxReadSizeKB', 1024);
+      const range = { line: params.line, limit: params.limit, maxBytes: maxKB * 1024 };
+
+      let result: LineRangeResult;
+      if (staged) {
+        result = await collectLineRange([staged.proposed], range);
+      } else if (openDoc) {
+        result = await collectLineRange([openDoc.getText()], range);
+      } else if (uri.scheme === 'file') {
+        result = await collectLineRange(streamTextFile(uri.fsPath, params.path), range);
       } else {
         const raw = await vscode.workspace.fs.readFile(uri);
-        content = Buffer.from(raw).toString('utf-8');
+        if (isBinary(raw)) {
+          throw binaryFileError(params.path);
+        }
+        result = await collectLineRange([decodeText(raw).text], range);
       }
 
-      // Handle line/limit parameters
-      if (params.line !== undefined && params.line !== null
-        || params.limit !== undefined && params.limit !== null) {
-        const lines = content.split('\n');
-        const startLine = (params.line ?? 1) - 1; // 1-based → 0-based
-        const endLine = params.limit
-          ? startLine + params.limit
-          : lines.length;
-        content = lines.slice(startLine, endLine).join('\n');
+      let content = result.content;
+      if (result.lineCut) {
+        log(`readTextFile: cut line ${result.nextLine} of ${params.path} at ${maxKB} KB`);
+        content += `\n\n[Line ${result.nextLine} is longer than ${maxKB} KB (acp.maxReadSizeKB) `
+          + `and was cut; the rest of it cannot be read. Continue reading with line: ${result.nextLine + 1}.]`;
+      } else if (result.truncated) {
+        log(`readTextFile: truncated ${params.path} at ${maxKB} KB`);
+        content += `\n\n[Output truncated at ${maxKB} KB (acp.maxReadSizeKB). `
+          + `Continue reading with line: ${result.nextLine} and a limit.]`;
       }
-
       return { content };
     } catch (e) {
       logError(`readTextFile failed: ${params.path}`, e);
@@ -55,26 +97,168 @@ export class FileSystemHandler {
   }
 
   /**
-   * Write a text file. Creates parent directories if needed.
-   * Opens the file in the editor so the user can see changes.
+   * Write a text file, or stage it for review when `acp.reviewWrites` is on.
    */
   async writeTextFile(params: WriteTextFileRequest): Promise<WriteTextFileResponse> {
     log(`writeTextFile: ${params.path}`);
+    await this.policy.check(params.sessionId, params.path, 'write');
 
     try {
-      const uri = vscode.Uri.file(params.path);
-      const encoded = Buffer.from(params.content, 'utf-8');
+      const uri = toWorkspaceUri(params.path);
 
-      await vscode.workspace.fs.writeFile(uri, encoded);
-
-      // Open the file in the editor so the user sees the change
-      const doc = await vscode.workspace.openTextDocument(uri);
-      await vscode.window.showTextDocument(doc, { preview: true, preserveFocus: true });
+      if (vscode.workspace.getConfiguration('acp').get<boolean>('reviewWrites', false)) {
+        await this.pendingChanges.stage(params.sessionId, uri, params.content);
+        return {};
+      }
 
+      await writeAgentFile(params.sessionId, uri, params.content, this.checkpoints, this.writeFeedback);
       return {};
     } catch (e) {
       logError(`writeTextFile failed: ${params.path}`, e);
       throw e;
     }
   }
+
+}
+
+/**
+ * Write an agent's edit of `uri`, made directly or accepted from review:
+ * the file is snapshotted into the session's checkpoint turn, written
+ * (and shown per `acp.revealWrites`), then given the {@link WriteFeedback}
+ * checks.
+ */
+export async function writeAgentFile(
+  sessionId: string,
+  uri: vscode.Uri,
+  content: string,
+  checkpoints: Checkpoints,
+  writeFeedback: WriteFeedback,
+): Promise<void> {
+  await checkpoints.recordBeforeWrite(sessionId, uri);
+  const baseline = writeFeedback.snapshot(uri);
+  await writeFileContent(uri, content, shouldReveal(checkpoints, sessionId, uri));
+  await writeFeedback.afterWrite(sessionId, uri, baseline);
+}
+
+/**
+ * Whether to show a written file in an editor, per `acp.revealWrites`:
+ * `always`, `never`, or `first` — only the turn's first changed file.
+ */
+function shouldReveal(checkpoints: Checkpoints, sessionId: string, uri: vscode.Uri): boolean {
+  switch (vscode.workspace.getConfiguration('acp').get<string>('revealWrites', 'first')) {
+    case 'always':
+      return true;
+    case 'never':
+      return false;
+    default: {
+      const files = checkpoints.getLatestTurn(sessionId)?.files;
+      return !files || files.keys().next().value === uri.toString();
+    }
+  }
+}
+
+function binaryFileError(path: string): RequestError {
+  return RequestError.invalidParams({ path }, `${path} is a binary file`);
+}
+
+/** Decoded chunks of a local text file; the file is closed when iteration stops early. */
+async function* streamTextFile(fsPath: string, path: string): AsyncGenerator<string> {
+  let decoder: ReturnType<typeof createStreamDecoder>;
+  for await (const chunk of createReadStream(fsPath, { highWaterMark: 64 * 1024 })) {
+    if (!decoder) {
+      decoder = createStreamDecoder(chunk);
+      if (!decoder) {
+        throw binaryFileError(path);
+      }
+    }
+    yield decoder.decode(chunk);
+  }
+  if (decoder) {
+    yield decoder.end();
+  }
+}
+
+/** Current text of a file (open editor buffer first), or null if it does not exist. */
+export async function readCurrentText(uri: vscode.Uri): Promise<string | null> {
+  const openDoc = findOpenDocument(uri);
+  if (openDoc) {
+    return openDoc.getText();
+  }
+  try {
+    return decodeText(await vscode.workspace.fs.readFile(uri)).text;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Write text to a file and, unless `reveal` is false, open it in the
+ * editor so the user sees the change.
+ *
+ * Files open in an editor are changed through a `WorkspaceEdit` touching
+ * only the changed lines, so the write is undoable and reaches other
+ * extensions' change listeners. The buffer ends up exactly equal to
+ * `content`: unsaved edits the agent's content does not include are
+ * replaced (reads of open files return the buffer, so the agent normally
+ * has them). Line endings are converted to the file's own (VS Code keeps
+ * the encoding when saving). A buffer that was clean is saved afterwards so
+ * the disk matches what the agent wrote; untitled buffers are never saved.
+ * Closed files are written to disk directly (creating parent directories
+ * if needed) in their existing encoding, BOM and line endings; new files
+ * are UTF-8. A closed `untitled:` URI opens a new buffer.
+ */
+export async function writeFileContent(uri: vscode.Uri, content: string, reveal = true): Promise<void> {
+  const openDoc = findOpenDocument(uri)
+    ?? (uri.scheme === 'untitled' ? await vscode.workspace.openTextDocument(uri) : undefined);
+
+  if (openDoc) {
+    const wasDirty = openDoc.isDirty;
+    const oldText = openDoc.getText();
+    content = normalizeEol(content, openDoc.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n');
+    const edit = new vscode.WorkspaceEdit();
+    const lineStarts = lineStartOffsets(oldText);
+    for (const hunk of computeHunks(oldText, content)) {
+      const { start, end, text } = hunkToTextEdit(oldText, hunk, lineStarts);
+      edit.replace(uri, new vscode.Range(openDoc.positionAt(start), openDoc.positionAt(end)), text);
+    }
+    if (edit.size > 0) {
+      if (!await vscode.workspace.applyEdit(edit)) {
+        throw new Error(`Could not apply the edit to ${uri.toString(true)}`);
+      }
+      if (!wasDirty && !openDoc.isUntitled) {
+        await openDoc.save();
+      }
+    }
+  } else {
+    await vscode.workspace.fs.writeFile(uri, encodeText(content, await targetFormat(uri, content)));
+  }
+
+  if (reveal) {
+    const doc = openDoc ?? await vscode.workspace.openTextDocument(uri);
+    await vscode.window.showTextDocument(doc, { preview: true, preserveFocus: true });
+  }
+}
+
+/**
+ * The format to write `content` to `uri` in: the existing file's, unless
+ * it is binary or missing, or is Latin-1 and `content` has characters
+ * Latin-1 cannot store — then UTF-8 with the content's line endings.
+ */
+async function targetFormat(uri: vscode.Uri, content: string): Promise<TextFormat> {
+  const fallback: TextFormat = { encoding: 'utf8', bom: false, eol: detectEol(content) };
+  let existing: Uint8Array;
+  try {
+    existing = await vscode.workspace.fs.readFile(uri);
+  } catch {
+    return fallback;
+  }
+  if (isBinary(existing)) {
+    return fallback;
+  }
+  const { format } = decodeText(existing);
+  if (format.encoding === 'latin1' && [...content].some(c => c.codePointAt(0)! > 0xff)) {
+    log(`writeFileContent: ${uri.toString(true)} is Latin-1 but the new content is not; writing UTF-8`);
+    return { ...format, encoding: 'utf8' };
+  }
+  return format;
 }
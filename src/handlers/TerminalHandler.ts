@@ -1,5 +1,8 @@
 import * as vscode from 'vscode';
+import { EventEmitter } from 'node:events';
 import { log, logError } from '../utils/Logger';
+import type { CommandPolicy } from '../core/CommandPolicy';
+import { killProcessTree, terminateProcessTree, treeMemory } from '../utils/ProcessTree';
 
 import type {
   CreateTerminalRequest,
@@ -14,11 +17,49 @@ import type {
   ReleaseTerminalResponse,
 } from '@agentclientprotocol/sdk';
 
-import { spawn, ChildProcess } from 'node:child_process';
+import { spawn } from 'node:child_process';
+import { constants as osConstants } from 'node:os';
+
+type NodePty = typeof import('@lydell/node-pty');
+
+/** A running agent command, backed by a pseudo-terminal or by pipes. */
+interface TerminalProcess {
+  readonly pid: number | undefined;
+  /** Send user input (VS Code terminal keystrokes) to the process. */
+  write(data: string): void;
+  resize(columns: number, rows: number): void;
+  kill(signal?: NodeJS.Signals): void;
+}
+
+/** A terminal as listed in the Terminals view. */
+export interface TerminalInfo {
+  id: string;
+  sessionId: string;
+  commandLine: string;
+  cwd: string;
+  /** Environment variables the agent set for the command. */
+  env: Record<string, string>;
+  startedAt: number;
+  /** When the process exited; undefined while it runs. */
+  endedAt: number | undefined;
+  exitCode: number | null;
+  exitSignal: string | null;
+  /** Size of the captured output, in bytes. */
+  outputBytes: number;
+  truncated: boolean;
+  /** The agent released it; it can no longer see the terminal. */
+  released: boolean;
+}
 
 interface ManagedTerminal {
   id: string;
-  process: ChildProcess;
+  sessionId: string;
+  commandLine: string;
+  cwd: string;
+  env: Record<string, string>;
+  startedAt: number;
+  endedAt?: number;
+  process: TerminalProcess;
   output: string;
   truncated: boolean;
   outputByteLimit: number;
@@ -27,104 +68,168 @@ interface ManagedTerminal {
   exited: boolean;
   exitPromise: Promise<void>;
   vsTerminal?: vscode.Terminal;
+  lastOutputAt: number;
+  /** Why the terminal was killed for breaching a limit. */
+  killReason?: string;
+}
+
+/** How often the limit watchdog runs, and memory is sampled every Nth run. */
+const WATCHDOG_INTERVAL_MS = 1000;
+const MEMORY_SAMPLE_EVERY = 5;
+/** How long a killed command gets to exit after SIGTERM before SIGKILL. */
+const KILL_GRACE_MS = 3000;
+
+/** CSI, OSC and two-character escape sequences. */
+const ANSI_ESCAPE = /\x1b(?:\[[0-?]*[ -/]*[@-~]|\][^\x07\x1b]*(?:\x07|\x1b\\)|[@-Z\\-_])/g;
+
+/**
+ * node-pty, loaded on first use; null where its native binary is
+ * unavailable (the package ships only the platforms it was built on).
+ */
+let nodePty: NodePty | null | undefined;
+
+async function loadNodePty(): Promise<NodePty | null> {
+  if (nodePty === undefined) {
+    try {
+      nodePty = await import('@lydell/node-pty');
+    } catch (e) {
+      logError(`node-pty is not available on ${process.platform}-${process.arch}; agent terminals fall back to pipes`, e);
+      nodePty = null;
+      void warnNoPty();
+    }
+  }
+  return nodePty;
+}
+
+/** Tell the user, once per window, that commands run without a TTY. */
+async function warnNoPty(): Promise<void> {
+  const choice = await vscode.window.showWarningMessage(
+    `Agent terminals cannot use a pseudo-terminal on this platform (${process.platform}-${process.arch}), `
+      + 'so commands run with piped input and output. Programs that need a TTY may behave differently.',
+    'Use Pipes Without Warning',
+  );
+  if (choice) {
+    await vscode.workspace.getConfiguration('acp').update('terminal.usePty', false, vscode.ConfigurationTarget.Global);
+  }
+}
+
+/**
+ * Where commands run when the agent gives no `cwd`: the first local
+ * workspace folder, else the extension host's working directory.
+ */
+function defaultCwd(): string {
+  const folder = vscode.workspace.workspaceFolders?.find(f => f.uri.scheme === 'file');
+  return folder ? folder.uri.fsPath : process.cwd();
+}
+
+/** The name of a signal number reported by node-pty. */
+function signalName(signal: number): string {
+  const entry = Object.entries(osConstants.signals).find(([, n]) => n === signal);
+  return entry ? entry[0] : String(signal);
 }
 
 /**
  * Manages terminals that ACP agents request (terminal/create, terminal/output, etc.).
- * Uses real child processes for capturing output, with VS Code terminals for display.
+ * Commands run in a real pseudo-terminal (node-pty) shown in a VS Code
+ * terminal, so TTY-aware programs behave and the user can type into them.
+ * Where node-pty cannot load, or `acp.terminal.usePty` is off, they run
+ * with piped stdio instead. The agent gets the output with escape
+ * sequences stripped and CRLF turned into LF.
+ *
+ * Every command is checked against the {@link CommandPolicy} before it
+ * is spawned, and killed with its whole process tree if it breaches the
+ * `acp.terminal.*` time or memory limits.
+ *
+ * One instance is shared by all agent connections, so terminal IDs are
+ * unique across agents. Emits:
+ * - `output` (sessionId, terminalId, data) for every chunk of output
+ * - `exit` (sessionId, terminalId, exitStatus) when the process ends
+ * - `limit` (sessionId, terminalId, { commandLine, reason }) when it is
+ *   killed for breaching a limit
+ * - `change` () when a terminal is created, exits or is released or pruned
+ *
+ * Released terminals stay listed for the Terminals view until their
+ * session ends; unreleased ones are killed then.
  */
-export class TerminalHandler {
+export class TerminalHandler extends EventEmitter {
   private terminals: Map<string, ManagedTerminal> = new Map();
+  private released: Map<string, ManagedTerminal> = new Map();
   private nextId = 1;
 
+  constructor(private readonly commandPolicy: CommandPolicy) {
+    super();
+  }
+
   async createTerminal(params: CreateTerminalRequest): Promise<CreateTerminalResponse> {
+    const commandLine = [params.command, ...(params.args || [])].join(' ');
+    const cwd = params.cwd || defaultCwd();
+    await this.commandPolicy.check(params.sessionId, commandLine, cwd);
+
     const terminalId = `term_${this.nextId++}`;
     const outputByteLimit = params.outputByteLimit ?? 1024 * 1024; // 1MB default
 
-    log(`createTerminal: ${params.command} ${(params.args || []).join(' ')} (id=${terminalId})`);
+    log(`createTerminal: ${commandLine} (id=${terminalId})`);
 
-    const env: Record<string, string> = { ...process.env } as Record<string, string>;
-    if (params.env) {
-      for (const v of params.env) {
-        env[v.name] = v.value;
-      }
+    const agentEnv: Record<string, string> = {};
+    for (const v of params.env ?? []) {
+      agentEnv[v.name] = v.value;
     }
+    const env: Record<string, string> = { ...process.env, ...agentEnv } as Record<string, string>;
 
-    const child = spawn(params.command, params.args || [], {
-      cwd: params.cwd || undefined,
-      env,
-      shell: true,
-      stdio: ['pipe', 'pipe', 'pipe'],
-    });
-
-    let output = '';
-    let truncated = false;
-
-    const appendOutput = (data: Buffer) => {
-      const text = data.toString();
-      output += text;
-      // Truncate from beginning if over limit
-      const byteLength = Buffer.byteLength(output, 'utf-8');
-      if (byteLength > outputByteLimit) {
-        const excess = byteLength - outputByteLimit;
-        // Find a safe character boundary to truncate at
-        let cutPoint = 0;
-        let bytes = 0;
-        for (let i = 0; i < output.length; i++) {
-          bytes += Buffer.byteLength(output[i], 'utf-8');
-          if (bytes >= excess) {
-            cutPoint = i + 1;
-            break;
-          }
-        }
-        output = output.substring(cutPoint);
-        truncated = true;
+    // The VS Code terminal drops writes until it opens, so hold them back.
+    const writeEmitter = new vscode.EventEmitter<string>();
+    let pendingWrites: string[] | null = [`$ ${commandLine}\r\n`];
+    const display = (data: string) => {
+      if (pendingWrites) {
+        pendingWrites.push(data);
+      } else {
+        writeEmitter.fire(data);
       }
     };
 
-    child.stdout?.on('data', appendOutput);
-    child.stderr?.on('data', appendOutput);
+    let resolveExit: () => void;
+    const exitPromise = new Promise<void>(resolve => { resolveExit = resolve; });
 
-    const exitPromise = new Promise<void>((resolve) => {
-      child.on('close', (code, signal) => {
-        const managed = this.terminals.get(terminalId);
-        if (managed) {
-          managed.exitCode = code;
-          managed.exitSignal = signal;
-          managed.exited = true;
-        }
-        resolve();
-      });
-      child.on('error', () => {
-        resolve();
-      });
-    });
-
-    // Also create a VS Code terminal for visual output
-    const writeEmitter = new vscode.EventEmitter<string>();
-    const pty: vscode.Pseudoterminal = {
-      onDidWrite: writeEmitter.event,
-      open() {
-        writeEmitter.fire(`$ ${params.command} ${(params.args || []).join(' ')}\r\n`);
-      },
-      close() { /* no-op */ },
+    const onOutput = (text: string) => {
+      const clean = text.replace(ANSI_ESCAPE, '').replace(/\r\n/g, '\n');
+      managed.lastOutputAt = Date.now();
+      this.appendOutput(managed, clean);
+      this.emit('output', params.sessionId, terminalId, clean);
+    };
+    const onExit = (exitCode: number | null, signal: string | null) => {
+      if (managed.exited) { return; }
+      if (managed.killReason) {
+        // Report the breached limit to the agent as the exit signal.
+        exitCode = null;
+        signal = `${signal ?? 'SIGKILL'} (${managed.killReason})`;
+      }
+      managed.exitCode = exitCode;
+      managed.exitSignal = signal;
+      managed.exited = true;
+      managed.endedAt = Date.now();
+      display(`\r\n[Process ${signal ? `killed by ${signal}` : `exited with code ${exitCode}`}]\r\n`);
+      this.emit('exit', params.sessionId, terminalId, { exitCode, signal });
+      this.emit('change');
+      resolveExit();
     };
-    const vsTerminal = vscode.window.createTerminal({
-      name: `ACP: ${params.command}`,
-      pty,
-    });
 
-    // Stream output to VS Code terminal
-    child.stdout?.on('data', (data: Buffer) => {
-      writeEmitter.fire(data.toString().replace(/\n/g, '\r\n'));
-    });
-    child.stderr?.on('data', (data: Buffer) => {
-      writeEmitter.fire(data.toString().replace(/\n/g, '\r\n'));
-    });
+    const usePty = vscode.workspace.getConfiguration('acp').get<boolean>('terminal.usePty', true);
+    const pty = usePty ? await loadNodePty() : null;
+    const terminalProcess = pty
+      ? this.spawnPty(pty, commandLine, cwd, env, data => { display(data); onOutput(data); }, onExit)
+      : this.spawnPiped(params.command, params.args || [], cwd, env, data => {
+        display(data.replace(/\r?\n/g, '\r\n'));
+        onOutput(data);
+      }, onExit);
 
     const managed: ManagedTerminal = {
       id: terminalId,
-      process: child,
+      sessionId: params.sessionId,
+      commandLine,
+      cwd,
+      env: agentEnv,
+      startedAt: Date.now(),
+      process: terminalProcess,
       output: '',
       truncated: false,
       outputByteLimit,
@@ -132,31 +237,202 @@ export class TerminalHandler {
       exitSignal: null,
       exited: false,
       exitPromise,
-      vsTerminal,
+      lastOutputAt: Date.now(),
     };
+    this.enforceLimits(managed);
 
-    // Keep output reference updated
-    const timer = setInterval(() => {
-      managed.output = output;
-      managed.truncated = truncated;
-    }, 100);
-
-    child.on('close', () => {
-      managed.output = output;
-      managed.truncated = truncated;
-      clearInterval(timer);
+    const pseudoterminal: vscode.Pseudoterminal = {
+      onDidWrite: writeEmitter.event,
+      open(dimensions) {
+        if (dimensions) {
+          terminalProcess.resize(dimensions.columns, dimensions.rows);
+        }
+        const writes = pendingWrites ?? [];
+        pendingWrites = null;
+        for (const data of writes) {
+          writeEmitter.fire(data);
+        }
+      },
+      setDimensions(dimensions) {
+        terminalProcess.resize(dimensions.columns, dimensions.rows);
+      },
+      handleInput(data) {
+        if (!managed.exited) {
+          terminalProcess.write(data);
+        }
+      },
+      close() {
+        // Closing the terminal hangs up on the command, as a real one would.
+        if (!managed.exited) {
+          terminalProcess.kill('SIGHUP');
+        }
+      },
+    };
+    managed.vsTerminal = vscode.window.createTerminal({
+      name: `ACP: ${params.command}`,
+      pty: pseudoterminal,
     });
 
     this.terminals.set(terminalId, managed);
+    this.emit('change');
 
     return { terminalId };
   }
 
-  async terminalOutput(params: TerminalOutputRequest): Promise<TerminalOutputResponse> {
-    const managed = this.terminals.get(params.terminalId);
-    if (!managed) {
-      throw new Error(`Terminal not found: ${params.terminalId}`);
+  /**
+   * Run `commandLine` through the shell in a pseudo-terminal. Output
+   * arrives as the terminal renders it (CRLF line endings, escapes).
+   */
+  private spawnPty(
+    pty: NodePty,
+    commandLine: string,
+    cwd: string,
+    env: Record<string, string>,
+    onData: (data: string) => void,
+    onExit: (exitCode: number | null, signal: string | null) => void,
+  ): TerminalProcess {
+    const isWindows = process.platform === 'win32';
+    const [shell, shellArgs] = isWindows
+      ? [env.ComSpec || 'cmd.exe', ['/d', '/s', '/c', commandLine]]
+      : ['/bin/sh', ['-c', commandLine]];
+    const term = pty.spawn(shell, shellArgs, {
+      name: 'xterm-256color',
+      cols: 80,
+      rows: 24,
+      cwd,
+      env: { ...env, TERM: env.TERM || 'xterm-256color' },
+    });
+    term.onData(onData);
+    term.onExit(({ exitCode, signal }) => {
+      if (signal) {
+        onExit(null, signalName(signal));
+      } else {
+        onExit(exitCode, null);
+      }
+    });
+    return {
+      pid: term.pid,
+      write: data => term.write(data),
+      resize: (columns, rows) => term.resize(Math.max(1, columns), Math.max(1, rows)),
+      // Windows has no signals; node-pty rejects one there.
+      kill: signal => term.kill(isWindows ? undefined : signal),
+    };
+  }
+
+  /**
+   * Fallback without a pseudo-terminal: piped stdio. User input is echoed
+   * locally and written to stdin as typed, with Enter sending a newline.
+   */
+  private spawnPiped(
+    command: string,
+    args: string[],
+    cwd: string,
+    env: Record<string, string>,
+    onData: (data: string) => void,
+    onExit: (exitCode: number | null, signal: string | null) => void,
+  ): TerminalProcess {
+    const child = spawn(command, args, {
+      cwd,
+      env,
+      shell: true,
+      stdio: ['pipe', 'pipe', 'pipe'],
+      // Its own process group, so the whole group can be killed.
+      detached: process.platform !== 'win32',
+    });
+    child.stdout?.on('data', (data: Buffer) => onData(data.toString()));
+    child.stderr?.on('data', (data: Buffer) => onData(data.toString()));
+    child.on('close', (code, signal) => onExit(code, signal));
+    child.on('error', (e) => {
+      onData(`${e.message}\n`);
+      onExit(null, null);
+    });
+    return {
+      pid: child.pid,
+      write: data => {
+        const text = data.replace(/\r/g, '\n');
+        onData(text);
+        child.stdin?.write(text);
+      },
+      resize: () => { /* pipes have no size */ },
+      kill: signal => child.kill(signal),
+    };
+  }
+
+  /**
+   * Watch `acp.terminal.timeoutSeconds` (wall clock),
+   * `acp.terminal.idleTimeoutSeconds` (time without output) and
+   * `acp.terminal.maxMemoryMB` (resident memory of the process tree) until
+   * the process exits. Zero disables a limit.
+   */
+  private enforceLimits(managed: ManagedTerminal): void {
+    const config = vscode.workspace.getConfiguration('acp.terminal');
+    const timeoutMs = config.get<number>('timeoutSeconds', 0) * 1000;
+    const idleMs = config.get<number>('idleTimeoutSeconds', 0) * 1000;
+    const maxMemoryMB = config.get<number>('maxMemoryMB', 0);
+    const pid = managed.process.pid;
+    if (pid === undefined || (timeoutMs <= 0 && idleMs <= 0 && maxMemoryMB <= 0)) {
+      return;
+    }
+
+    const startedAt = Date.now();
+    let ticks = 0;
+    let sampling = false;
+    const watchdog = setInterval(() => {
+      const now = Date.now();
+      if (timeoutMs > 0 && now - startedAt > timeoutMs) {
+        this.killForLimit(managed, `timed out after ${timeoutMs / 1000}s`);
+      } else if (idleMs > 0 && now - managed.lastOutputAt > idleMs) {
+        this.killForLimit(managed, `no output for ${idleMs / 1000}s`);
+      } else if (maxMemoryMB > 0 && ++ticks % MEMORY_SAMPLE_EVERY === 0 && !sampling) {
+        sampling = true;
+        treeMemory(pid)
+          .then(bytes => {
+            if (bytes > maxMemoryMB * 1024 * 1024) {
+              this.killForLimit(managed, `memory use of ${Math.round(bytes / 1024 / 1024)} MB exceeded ${maxMemoryMB} MB`);
+            }
+          })
+          .catch(e => logError(`Sampling memory of terminal ${managed.id} failed`, e))
+          .finally(() => { sampling = false; });
+      }
+    }, WATCHDOG_INTERVAL_MS);
+    void managed.exitPromise.then(() => clearInterval(watchdog));
+  }
+
+  /** Kill a terminal's whole process tree for breaching a limit. */
+  private killForLimit(managed: ManagedTerminal, reason: string): void {
+    if (managed.exited || managed.killReason || managed.process.pid === undefined) {
+      return;
     }
+    managed.killReason = reason;
+    log(`Terminal ${managed.id} (${managed.commandLine}) killed: ${reason}`);
+    this.appendOutput(managed, `\n[Killed: ${reason}]\n`);
+    this.emit('limit', managed.sessionId, managed.id, { commandLine: managed.commandLine, reason });
+    void killProcessTree(managed.process.pid, 'SIGKILL');
+  }
+
+  /** Append to the agent-facing buffer, dropping the oldest output past the byte limit. */
+  private appendOutput(managed: ManagedTerminal, text: string): void {
+    managed.output += text;
+    const byteLength = Buffer.byteLength(managed.output, 'utf-8');
+    if (byteLength > managed.outputByteLimit) {
+      const excess = byteLength - managed.outputByteLimit;
+      // Find a safe character boundary to truncate at
+      let cutPoint = 0;
+      let bytes = 0;
+      for (let i = 0; i < managed.output.length; i++) {
+        bytes += Buffer.byteLength(managed.output[i], 'utf-8');
+        if (bytes >= excess) {
+          cutPoint = i + 1;
+          break;
+        }
+      }
+      managed.output = managed.output.substring(cutPoint);
+      managed.truncated = true;
+    }
+  }
+
+  async terminalOutput(params: TerminalOutputRequest): Promise<TerminalOutputResponse> {
+    const managed = this.getOwned(params);
 
     const response: TerminalOutputResponse = {
       output: managed.output,
@@ -174,10 +450,7 @@ export class TerminalHandler {
   }
 
   async waitForTerminalExit(params: WaitForTerminalExitRequest): Promise<WaitForTerminalExitResponse> {
-    const managed = this.terminals.get(params.terminalId);
-    if (!managed) {
-      throw new Error(`Terminal not found: ${params.terminalId}`);
-    }
+    const managed = this.getOwned(params);
 
     await managed.exitPromise;
 
@@ -188,54 +461,147 @@ export class TerminalHandler {
   }
 
   async killTerminal(params: KillTerminalRequest): Promise<KillTerminalResponse> {
-    const managed = this.terminals.get(params.terminalId);
-    if (!managed) {
-      throw new Error(`Terminal not found: ${params.terminalId}`);
-    }
+    const managed = this.getOwned(params);
 
-    try {
-      managed.process.kill('SIGTERM');
-    } catch (e) {
-      logError(`Failed to kill terminal ${params.terminalId}`, e);
-    }
+    await this.terminate(managed);
 
     return {};
   }
 
   async releaseTerminal(params: ReleaseTerminalRequest): Promise<ReleaseTerminalResponse> {
-    const managed = this.terminals.get(params.terminalId);
-    if (!managed) {
-      throw new Error(`Terminal not found: ${params.terminalId}`);
-    }
+    const managed = this.getOwned(params);
 
     log(`releaseTerminal: ${params.terminalId}`);
 
-    // Kill if still running
-    if (!managed.exited) {
-      try {
-        managed.process.kill('SIGTERM');
-      } catch {
-        // ignore
-      }
-    }
+    // Kill it and anything it left running in the background
+    void this.terminate(managed);
 
     // Don't dispose VS Code terminal — keep output visible per ACP spec
     this.terminals.delete(params.terminalId);
+    this.released.set(params.terminalId, managed);
+    this.emit('change');
 
     return {};
   }
 
-  dispose(): void {
-    for (const [, managed] of this.terminals) {
-      try {
-        if (!managed.exited) {
-          managed.process.kill('SIGKILL');
+  // --- Terminals view ---
+
+  /** Every terminal, in creation order, including released ones. */
+  getTerminals(): TerminalInfo[] {
+    return [...this.terminals.values(), ...this.released.values()]
+      .sort((a, b) => a.startedAt - b.startedAt)
+      .map(managed => ({
+        id: managed.id,
+        sessionId: managed.sessionId,
+        commandLine: managed.commandLine,
+        cwd: managed.cwd,
+        env: managed.env,
+        startedAt: managed.startedAt,
+        endedAt: managed.endedAt,
+        exitCode: managed.exitCode,
+        exitSignal: managed.exitSignal,
+        outputBytes: Buffer.byteLength(managed.output),
+        truncated: managed.truncated,
+        released: this.released.has(managed.id),
+      }));
+  }
+
+  /** The captured output (escapes stripped), as the agent sees it. */
+  getOutput(terminalId: string): string | undefined {
+    return this.find(terminalId)?.output;
+  }
+
+  /** Show a terminal's VS Code terminal; false if the user closed it. */
+  showTerminal(terminalId: string): boolean {
+    const vsTerminal = this.find(terminalId)?.vsTerminal;
+    if (!vsTerminal || vsTerminal.exitStatus !== undefined) {
+      return false;
+    }
+    vsTerminal.show();
+    return true;
+  }
+
+  /** Kill a terminal's process tree on the user's behalf. */
+  async stopTerminal(terminalId: string): Promise<void> {
+    const managed = this.find(terminalId);
+    if (managed) {
+      log(`Terminal ${terminalId} (${managed.commandLine}) killed by the user`);
+      await this.terminate(managed);
+    }
+  }
+
+  /**
+   * Drop the terminals of sessions that are no longer live. Ones their
+   * agent never released are killed with their process tree first: nobody
+   * is left to wait for them.
+   */
+  prune(liveSessionIds: string[]): void {
+    let changed = false;
+    for (const terminals of [this.terminals, this.released]) {
+      for (const [id, managed] of terminals) {
+        if (liveSessionIds.includes(managed.sessionId)) { continue; }
+        if (terminals === this.terminals) {
+          log(`Terminal ${id} (${managed.commandLine}) outlived session ${managed.sessionId}; killing it`);
+          void this.terminate(managed);
         }
-        managed.vsTerminal?.dispose();
-      } catch {
-        // ignore
+        terminals.delete(id);
+        changed = true;
       }
     }
+    if (changed) {
+      this.emit('change');
+    }
+  }
+
+  /**
+   * The unreleased terminal `terminalId` of the requesting session. Other
+   * sessions' terminals are reported as not found, so one agent session
+   * cannot read or kill another's commands.
+   */
+  private getOwned(params: { sessionId: string; terminalId: string }): ManagedTerminal {
+    const managed = this.terminals.get(params.terminalId);
+    if (!managed || managed.sessionId !== params.sessionId) {
+      if (managed) {
+        log(`Session ${params.sessionId} asked for terminal ${params.terminalId} of session ${managed.sessionId}; refused`);
+      }
+      throw new Error(`Terminal not found: ${params.terminalId}`);
+    }
+    return managed;
+  }
+
+  private find(terminalId: string): ManagedTerminal | undefined {
+    return this.terminals.get(terminalId) ?? this.released.get(terminalId);
+  }
+
+  /**
+   * Kill every terminal's process tree in parallel. Resolves once they are
+   * gone, so extension deactivation can wait for it (with a shorter
+   * `graceMs`).
+   */
+  async dispose(graceMs = KILL_GRACE_MS): Promise<void> {
+    const terminals = [...this.terminals.values(), ...this.released.values()];
     this.terminals.clear();
+    this.released.clear();
+    this.removeAllListeners();
+    await Promise.all(terminals.map(async managed => {
+      await this.terminate(managed, graceMs);
+      managed.vsTerminal?.dispose();
+    }));
+  }
+
+  /**
+   * SIGTERM the command's process tree and process group, escalating to
+   * SIGKILL. After the command itself exited this still stops background
+   * processes it left in its group.
+   */
+  private async terminate(managed: ManagedTerminal, graceMs = KILL_GRACE_MS): Promise<void> {
+    if (managed.process.pid === undefined) {
+      return;
+    }
+    try {
+      await terminateProcessTree(managed.process.pid, { graceMs, leaderExited: managed.exited });
+    } catch (e) {
+      logError(`Failed to kill terminal ${managed.id}`, e);
+    }
   }
 }
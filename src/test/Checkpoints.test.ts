@@ -0,0 +1,131 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Checkpoints } from '../core/Checkpoints';
+
+suite('Checkpoints', () => {
+	let checkpoints: Checkpoints;
+	let tmp: string;
+
+	const file = (name: string) => vscode.Uri.file(path.join(tmp, name));
+	const read = (name: string) => fs.readFileSync(path.join(tmp, name), 'utf8');
+	/** Write a file the way an agent write is recorded: snapshot first. */
+	const agentWrite = async (sessionId: string, name: string, text: string) => {
+		await checkpoints.recordBeforeWrite(sessionId, file(name));
+		fs.writeFileSync(path.join(tmp, name), text);
+	};
+
+	setup(() => {
+		checkpoints = new Checkpoints();
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'acp-checkpoints-'));
+	});
+
+	teardown(() => {
+		checkpoints.dispose();
+		fs.rmSync(tmp, { recursive: true, force: true });
+	});
+
+	test('numbers turns per session and labels them with the prompt', () => {
+		assert.strictEqual(checkpoints.beginTurn('a', 'first').index, 1);
+		checkpoints.endTurn('a');
+		assert.strictEqual(checkpoints.beginTurn('b', 'other session').index, 1);
+		const long = checkpoints.beginTurn('a', 'x'.repeat(200));
+		assert.strictEqual(long.index, 2);
+		assert.strictEqual(long.prompt, 'x'.repeat(80) + '…');
+		assert.ok(checkpoints.isTurnOpen('a'));
+		checkpoints.endTurn('a');
+		assert.ok(!checkpoints.isTurnOpen('a'));
+	});
+
+	test('snapshots a file once per turn, before the first write', async () => {
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'v0');
+		checkpoints.beginTurn('s', 'edit');
+		await agentWrite('s', 'a.txt', 'v1');
+		await agentWrite('s', 'a.txt', 'v2');
+		await agentWrite('s', 'new.txt', 'created');
+		checkpoints.endTurn('s');
+
+		const [turn] = checkpoints.getTurns('s');
+		assert.deepStrictEqual([...turn.files.values()].map(f => f.before), ['v0', null]);
+	});
+
+	test('only turns that changed files are listed', async () => {
+		checkpoints.beginTurn('s', 'question');
+		checkpoints.endTurn('s');
+		checkpoints.beginTurn('s', 'edit');
+		await agentWrite('s', 'a.txt', 'v1');
+		checkpoints.endTurn('s');
+		assert.deepStrictEqual(checkpoints.getTurns('s').map(t => t.index), [2]);
+		assert.deepStrictEqual(checkpoints.getSessionIds(), ['s']);
+		assert.strictEqual(checkpoints.getLatestTurn('s')?.index, 2);
+	});
+
+	test('writes outside a prompt go to the latest turn', async () => {
+		checkpoints.beginTurn('s', 'edit');
+		checkpoints.endTurn('s');
+		await agentWrite('s', 'a.txt', 'v1');
+		assert.strictEqual(checkpoints.getTurn('s', 1)?.files.size, 1);
+		// A session without any turn gets one.
+		await agentWrite('t', 'b.txt', 'v1');
+		assert.strictEqual(checkpoints.getTurns('t').length, 1);
+	});
+
+	test('revertTo restores files and deletes created ones', async () => {
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'v0');
+		checkpoints.beginTurn('s', 'one');
+		await agentWrite('s', 'a.txt', 'v1');
+		checkpoints.endTurn('s');
+		checkpoints.beginTurn('s', 'two');
+		await agentWrite('s', 'a.txt', 'v2');
+		await agentWrite('s', 'b.txt', 'created');
+		checkpoints.endTurn('s');
+
+		assert.deepStrictEqual(checkpoints.getRevertSet('s', 1).map(f => f.before), ['v0', null]);
+		const restored = await checkpoints.revertTo('s', 2);
+		assert.strictEqual(restored.length, 2);
+		assert.strictEqual(read('a.txt'), 'v1');
+		assert.ok(!fs.existsSync(path.join(tmp, 'b.txt')));
+		assert.deepStrictEqual(checkpoints.getTurns('s').map(t => t.index), [1]);
+
+		await checkpoints.revertTo('s', 1);
+		assert.strictEqual(read('a.txt'), 'v0');
+		assert.deepStrictEqual(checkpoints.getTurns('s'), []);
+		// Turn numbers are not reused after a revert.
+		assert.strictEqual(checkpoints.beginTurn('s', 'three').index, 3);
+	});
+
+	test('reverting to an earlier turn restores the earliest snapshot', async () => {
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'v0');
+		for (const text of ['v1', 'v2', 'v3']) {
+			checkpoints.beginTurn('s', text);
+			await agentWrite('s', 'a.txt', text);
+			checkpoints.endTurn('s');
+		}
+		await checkpoints.revertTo('s', 2);
+		assert.strictEqual(read('a.txt'), 'v1');
+	});
+
+	test('refuses to revert while a turn is open', async () => {
+		checkpoints.beginTurn('s', 'edit');
+		await agentWrite('s', 'a.txt', 'v1');
+		await assert.rejects(checkpoints.revertTo('s', 1), /still working/);
+		assert.strictEqual(read('a.txt'), 'v1');
+	});
+
+	test('prune forgets sessions that are no longer live', async () => {
+		checkpoints.beginTurn('live', 'edit');
+		await agentWrite('live', 'a.txt', 'v1');
+		checkpoints.beginTurn('gone', 'edit');
+		await agentWrite('gone', 'b.txt', 'v1');
+		let changes = 0;
+		checkpoints.onDidChange(() => changes++);
+
+		checkpoints.prune(['live']);
+		assert.deepStrictEqual(checkpoints.getSessionIds(), ['live']);
+		assert.ok(!checkpoints.isTurnOpen('gone'));
+		assert.strictEqual(changes, 1);
+		assert.strictEqual(checkpoints.beginTurn('gone', 'again').index, 1);
+	});
+});
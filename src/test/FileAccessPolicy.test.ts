@@ -0,0 +1,102 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { FileAccessPolicy } from '../core/FileAccessPolicy';
+
+const SETTINGS = ['restrictToWorkspace', 'allowedPaths', 'deny', 'readOnly'];
+
+// Runs against the fixture workspace opened by .vscode-test.mjs.
+suite('FileAccessPolicy', () => {
+	const policy = new FileAccessPolicy();
+	let root: string;
+	let tmp: string;
+
+	const configure = async (settings: Record<string, unknown>) => {
+		const config = vscode.workspace.getConfiguration('acp.fileAccess');
+		for (const [key, value] of Object.entries(settings)) {
+			await config.update(key, value, vscode.ConfigurationTarget.Global);
+		}
+	};
+
+	suiteSetup(() => {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		assert.ok(folder, 'the test workspace folder should be open');
+		root = folder.uri.fsPath;
+	});
+
+	setup(() => {
+		tmp = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'acp-access-')));
+	});
+
+	teardown(async () => {
+		await configure(Object.fromEntries(SETTINGS.map(key => [key, undefined])));
+		fs.rmSync(tmp, { recursive: true, force: true });
+	});
+
+	suiteTeardown(() => policy.dispose());
+
+	test('allows paths inside the workspace', async () => {
+		assert.strictEqual(await policy.evaluate(path.join(root, 'src', 'main.ts'), 'read'), undefined);
+		assert.strictEqual(await policy.evaluate(path.join(root, 'new', 'file.ts'), 'write'), undefined);
+	});
+
+	test('refuses paths outside the workspace', async () => {
+		assert.match(await policy.evaluate(path.join(tmp, 'notes.txt'), 'read') ?? '', /outside the workspace/);
+		assert.match(await policy.evaluate(path.join(root, '..', '..', 'package.json'), 'read') ?? '', /outside the workspace/);
+		assert.strictEqual(await policy.isInsideWorkspace(path.join(tmp, 'notes.txt')), false);
+	});
+
+	test('allowedPaths and restrictToWorkspace open up other paths', async () => {
+		await configure({ allowedPaths: [tmp] });
+		assert.strictEqual(await policy.evaluate(path.join(tmp, 'notes.txt'), 'write'), undefined);
+		await configure({ allowedPaths: [], restrictToWorkspace: false });
+		assert.strictEqual(await policy.evaluate(path.join(tmp, 'notes.txt'), 'write'), undefined);
+	});
+
+	test('symlinks cannot reach outside the allowed paths', async () => {
+		const allowed = path.join(tmp, 'allowed');
+		const outside = path.join(tmp, 'outside');
+		fs.mkdirSync(allowed);
+		fs.mkdirSync(outside);
+		fs.symlinkSync(outside, path.join(allowed, 'link'), 'dir');
+		await configure({ allowedPaths: [allowed] });
+		assert.strictEqual(await policy.evaluate(path.join(allowed, 'notes.txt'), 'read'), undefined);
+		assert.match(await policy.evaluate(path.join(allowed, 'link', 'notes.txt'), 'read') ?? '', /outside the workspace/);
+	});
+
+	test('deny globs block reads and writes', async () => {
+		for (const mode of ['read', 'write'] as const) {
+			assert.match(await policy.evaluate(path.join(root, '.env'), mode) ?? '', /deny pattern/);
+			assert.match(await policy.evaluate(path.join(root, 'config', '.env.local'), mode) ?? '', /deny pattern/);
+		}
+		await configure({ deny: ['secrets/**'] });
+		assert.match(await policy.evaluate(path.join(root, 'secrets', 'a', 'b.txt'), 'read') ?? '', /"secrets\/\*\*"/);
+		assert.strictEqual(await policy.evaluate(path.join(root, '.env'), 'read'), undefined);
+	});
+
+	test('readOnly globs block writes only', async () => {
+		const gitConfig = path.join(root, '.git', 'config');
+		assert.strictEqual(await policy.evaluate(gitConfig, 'read'), undefined);
+		assert.match(await policy.evaluate(gitConfig, 'write') ?? '', /read-only/);
+	});
+
+	test('absolute globs match outside the workspace', async () => {
+		await configure({ allowedPaths: [tmp], deny: [`${tmp.split(path.sep).join('/')}/private/**`] });
+		assert.strictEqual(await policy.evaluate(path.join(tmp, 'public', 'a.txt'), 'read'), undefined);
+		assert.match(await policy.evaluate(path.join(tmp, 'private', 'a.txt'), 'read') ?? '', /deny pattern/);
+	});
+
+	test('matches case-insensitively on volumes that ignore case', async () => {
+		fs.writeFileSync(path.join(tmp, 'Probe'), '');
+		const ignoresCase = fs.existsSync(path.join(tmp, 'pROBE'));
+		await configure({ allowedPaths: [tmp], deny: ['secret.txt'] });
+		const reason = await policy.evaluate(path.join(tmp, 'SECRET.TXT'), 'read');
+		assert.strictEqual(reason !== undefined, ignoresCase);
+	});
+
+	test('untitled buffers are not sandboxed', async () => {
+		assert.strictEqual(await policy.evaluate('untitled:Untitled-1', 'write'), undefined);
+	});
+});
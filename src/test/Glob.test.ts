@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import { globToRegExp, matchesGlob } from '../utils/Glob';
+
+suite('Glob', () => {
+	test('* stays within a path segment, ** spans segments', () => {
+		assert.ok(matchesGlob('src/a.ts', 'src/*.ts'));
+		assert.ok(!matchesGlob('src/lib/a.ts', 'src/*.ts'));
+		assert.ok(matchesGlob('src/lib/a.ts', 'src/**/*.ts'));
+		assert.ok(matchesGlob('src/a.ts', 'src/**/*.ts'));
+		assert.ok(matchesGlob('secrets/a/b/c', 'secrets/**'));
+	});
+
+	test('supports ?, character classes and alternatives', () => {
+		assert.ok(matchesGlob('a1.txt', 'a?.txt'));
+		assert.ok(!matchesGlob('a/.txt', 'a?.txt'));
+		assert.ok(matchesGlob('file-b', 'file-[abc]'));
+		assert.ok(!matchesGlob('file-d', 'file-[abc]'));
+		assert.ok(matchesGlob('file-d', 'file-[!abc]'));
+		assert.ok(matchesGlob('key.pem', '*.{pem,key}'));
+		assert.ok(matchesGlob('id.key', '*.{pem,key}'));
+		assert.ok(!matchesGlob('id.pub', '*.{pem,key}'));
+	});
+
+	test('escapes regular expression characters', () => {
+		assert.ok(matchesGlob('a+b(1).txt', 'a+b(1).txt'));
+		assert.ok(!matchesGlob('axtxt', 'a.txt'));
+		assert.ok(matchesGlob('a}', 'a}'));
+	});
+
+	test('patterns without a slash match the last segment', () => {
+		assert.ok(matchesGlob('config/.env.local', '.env*'));
+		assert.ok(matchesGlob('.env', '.env*'));
+		assert.ok(!matchesGlob('config/.env.local', 'config/.env'));
+		assert.ok(matchesGlob('config/.env.local', './config/.env.*'));
+	});
+
+	test('normalizes backslashes in paths', () => {
+		assert.ok(matchesGlob('src\\lib\\a.ts', 'src/**/*.ts'));
+	});
+
+	test('matches case-insensitively on request', () => {
+		assert.ok(!matchesGlob('README.MD', '*.md'));
+		assert.ok(matchesGlob('README.MD', '*.md', true));
+		assert.notStrictEqual(globToRegExp('*.md'), globToRegExp('*.md', true));
+	});
+});
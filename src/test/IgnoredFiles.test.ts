@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { IgnoredFiles } from '../core/IgnoredFiles';
+
+// Runs against the fixture workspace opened by .vscode-test.mjs.
+suite('IgnoredFiles', () => {
+	const ignoredFiles = new IgnoredFiles();
+	const match = (relPath: string) => {
+		const folder = vscode.workspace.workspaceFolders?.[0];
+		assert.ok(folder, 'the test workspace folder should be open');
+		return ignoredFiles.match(vscode.Uri.joinPath(folder.uri, ...relPath.split('/')));
+	};
+
+	test('applies .gitignore rules', async () => {
+		assert.strictEqual(await match('dist/main.js'), '.gitignore: dist');
+		assert.strictEqual(await match('src/debug.log'), '.gitignore: *.log');
+		assert.strictEqual(await match('src/main.ts'), undefined);
+	});
+
+	test('applies .acpignore rules', async () => {
+		assert.strictEqual(await match('vendor/lib.js'), '.acpignore: vendor');
+	});
+
+	test('later negated rules re-include files', async () => {
+		assert.strictEqual(await match('keep.log'), undefined);
+	});
+
+	test('anchored rules only match relative to their ignore file', async () => {
+		assert.strictEqual(await match('root-only.txt'), '.gitignore: root-only.txt');
+		assert.strictEqual(await match('src/root-only.txt'), undefined);
+	});
+
+	test('directory rules do not match files', async () => {
+		assert.strictEqual(await match('dist'), undefined);
+	});
+
+	test('nested ignore files apply below their directory', async () => {
+		assert.strictEqual(await match('packages/app/generated/types.ts'), 'packages/app/.gitignore: generated');
+		assert.strictEqual(await match('generated/types.ts'), undefined);
+	});
+
+	test('files in an ignored directory cannot be re-included', async () => {
+		assert.strictEqual(await match('packages/app/main.js'), undefined);
+		assert.strictEqual(await match('packages/app/dist/main.js'), '.gitignore: dist');
+	});
+
+	test('applies files.exclude', async () => {
+		assert.strictEqual(await match('.git/config'), 'files.exclude: **/.git');
+	});
+
+	test('ignores nothing outside the workspace folder', async () => {
+		assert.strictEqual(await ignoredFiles.match(vscode.Uri.file('/tmp/dist/main.js')), undefined);
+	});
+});
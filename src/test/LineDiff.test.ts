@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { applyHunks, computeHunks, describeHunk, hunkToTextEdit, lineStartOffsets } from '../utils/LineDiff';
+
+/** Apply a text edit the way an editor would. */
+function applyEdit(text: string, edit: { start: number; end: number; text: string }): string {
+	return text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+}
+
+suite('LineDiff', () => {
+	test('finds no hunks for identical text', () => {
+		assert.deepStrictEqual(computeHunks('a\nb\nc', 'a\nb\nc'), []);
+	});
+
+	test('splits separate changes into separate hunks', () => {
+		const hunks = computeHunks('a\nb\nc\nd\ne', 'a\nB\nc\nd\nE\nf');
+		assert.deepStrictEqual(hunks, [
+			{ oldStart: 1, oldLines: ['b'], newLines: ['B'] },
+			{ oldStart: 4, oldLines: ['e'], newLines: ['E', 'f'] },
+		]);
+		assert.strictEqual(describeHunk(hunks[1]), 'Line 5: -1 +2');
+	});
+
+	test('applies any subset of hunks', () => {
+		const oldText = 'one\ntwo\nthree\nfour';
+		const newText = 'one\n2\nthree\nfour\nfive';
+		const [first, second] = computeHunks(oldText, newText);
+		assert.strictEqual(applyHunks(oldText, [first, second]), newText);
+		assert.strictEqual(applyHunks(oldText, [second, first]), newText);
+		assert.strictEqual(applyHunks(oldText, [first]), 'one\n2\nthree\nfour');
+		assert.strictEqual(applyHunks(oldText, [second]), 'one\ntwo\nthree\nfour\nfive');
+	});
+
+	test('keeps carriage returns on their lines', () => {
+		const oldText = 'a\r\nb\r\nc';
+		const newText = 'a\r\nB\r\nc';
+		assert.deepStrictEqual(computeHunks(oldText, newText), [{ oldStart: 1, oldLines: ['b\r'], newLines: ['B\r'] }]);
+		assert.strictEqual(applyHunks(oldText, computeHunks(oldText, newText)), newText);
+	});
+
+	test('turns hunks into text edits that produce the new text', () => {
+		const cases: [string, string][] = [
+			['a\nb\nc', 'a\nB\nc'],
+			['a\nb\nc', 'a\nb\nc\nd'],
+			['a\nb\nc', 'a\nb'],
+			['a\nb\nc', 'x\ny'],
+			['a\nb\nc', 'a\nc'],
+			['a', ''],
+			['', 'a\nb'],
+		];
+		for (const [oldText, newText] of cases) {
+			const hunks = computeHunks(oldText, newText);
+			assert.strictEqual(hunks.length, 1, `${JSON.stringify(oldText)} -> ${JSON.stringify(newText)}`);
+			assert.strictEqual(applyEdit(oldText, hunkToTextEdit(oldText, hunks[0])), newText,
+				`${JSON.stringify(oldText)} -> ${JSON.stringify(newText)}`);
+		}
+	});
+
+	test('converts several hunks with shared line offsets', () => {
+		const oldText = 'a\r\nb\r\nc\r\nd\r\ne';
+		const newText = 'A\r\nb\r\nc\r\nD\r\ne\r\nf';
+		const lineStarts = lineStartOffsets(oldText);
+		assert.deepStrictEqual(lineStarts, [0, 3, 6, 9, 12]);
+		// Bottom-up, so earlier offsets stay valid.
+		const edits = computeHunks(oldText, newText).reverse().map(hunk => hunkToTextEdit(oldText, hunk, lineStarts));
+		assert.strictEqual(edits.length, 2);
+		assert.strictEqual(edits.reduce(applyEdit, oldText), newText);
+	});
+});
@@ -0,0 +1,78 @@
+import * as assert from 'assert';
+import { collectLineRange } from '../utils/LineRange';
+
+const text = 'one\ntwo\nthree\nfour';
+
+suite('LineRange', () => {
+	test('returns the whole text by default', async () => {
+		assert.deepStrictEqual(await collectLineRange([text], { maxBytes: 1024 }), {
+			content: text, truncated: false, lineCut: false, nextLine: 5,
+		});
+	});
+
+	test('selects lines by start and limit', async () => {
+		const result = await collectLineRange([text], { line: 2, limit: 2, maxBytes: 1024 });
+		assert.strictEqual(result.content, 'two\nthree');
+		assert.strictEqual(result.nextLine, 4);
+		assert.strictEqual((await collectLineRange([text], { line: 4, maxBytes: 1024 })).content, 'four');
+		assert.strictEqual((await collectLineRange([text], { line: 9, maxBytes: 1024 })).content, '');
+		assert.strictEqual((await collectLineRange([text], { limit: 0, maxBytes: 1024 })).content, '');
+	});
+
+	test('joins lines split across chunks', async () => {
+		const result = await collectLineRange(['on', 'e\ntw', 'o\nth', 'ree\nfour'], { line: 2, limit: 2, maxBytes: 1024 });
+		assert.strictEqual(result.content, 'two\nthree');
+	});
+
+	test('keeps carriage returns', async () => {
+		const result = await collectLineRange(['a\r\nb\r\nc'], { limit: 2, maxBytes: 1024 });
+		assert.strictEqual(result.content, 'a\r\nb\r');
+	});
+
+	test('stops at whole lines when the byte cap is reached', async () => {
+		assert.deepStrictEqual(await collectLineRange([text], { maxBytes: 9 }), {
+			content: 'one\ntwo', truncated: true, lineCut: false, nextLine: 3,
+		});
+	});
+
+	test('measures the cap in UTF-8 bytes', async () => {
+		const result = await collectLineRange(['ééé\nx'], { maxBytes: 5 });
+		assert.strictEqual(result.content, 'éé');
+		assert.strictEqual(result.truncated, true);
+	});
+
+	test('cuts a single line longer than the cap and reports it', async () => {
+		const result = await collectLineRange(['a\n', 'b'.repeat(10), 'b'.repeat(10), '\nc'], { line: 2, maxBytes: 8 });
+		assert.deepStrictEqual(result, { content: 'bbbbbbbb', truncated: true, lineCut: true, nextLine: 2 });
+	});
+
+	test('does not cut multi-byte characters', async () => {
+		const result = await collectLineRange(['x', 'é'.repeat(10)], { maxBytes: 6 });
+		assert.deepStrictEqual(result, { content: 'xéé', truncated: true, lineCut: true, nextLine: 1 });
+	});
+
+	test('stops pulling chunks once the range is complete', async () => {
+		let pulled = 0;
+		function* chunks() {
+			for (const line of ['one\n', 'two\n', 'three\n', 'four\n']) {
+				pulled++;
+				yield line;
+			}
+		}
+		assert.strictEqual((await collectLineRange(chunks(), { limit: 2, maxBytes: 1024 })).content, 'one\ntwo');
+		assert.strictEqual(pulled, 2);
+	});
+
+	test('stops pulling chunks of a long line once it exceeds the cap', async () => {
+		let pulled = 0;
+		async function* chunks() {
+			for (let i = 0; i < 100; i++) {
+				pulled++;
+				yield 'é'.repeat(4);
+			}
+		}
+		const result = await collectLineRange(chunks(), { maxBytes: 20 });
+		assert.strictEqual(result.content, 'é'.repeat(10));
+		assert.strictEqual(pulled, 3);
+	});
+});
@@ -0,0 +1,126 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { Checkpoints } from '../core/Checkpoints';
+import { PendingChanges } from '../core/PendingChanges';
+import { WriteFeedback } from '../core/WriteFeedback';
+import { computeHunks } from '../utils/LineDiff';
+
+suite('PendingChanges', () => {
+	let checkpoints: Checkpoints;
+	let writeFeedback: WriteFeedback;
+	let pending: PendingChanges;
+	let tmp: string;
+
+	const file = (name: string) => vscode.Uri.file(path.join(tmp, name));
+	const read = (name: string) => fs.readFileSync(path.join(tmp, name), 'utf8');
+
+	suiteSetup(async () => {
+		// Keep accepted writes from opening editors.
+		await vscode.workspace.getConfiguration('acp').update('revealWrites', 'never', vscode.ConfigurationTarget.Global);
+	});
+
+	suiteTeardown(async () => {
+		await vscode.workspace.getConfiguration('acp').update('revealWrites', undefined, vscode.ConfigurationTarget.Global);
+	});
+
+	setup(() => {
+		checkpoints = new Checkpoints();
+		writeFeedback = new WriteFeedback();
+		pending = new PendingChanges(checkpoints, writeFeedback);
+		tmp = fs.mkdtempSync(path.join(os.tmpdir(), 'acp-pending-'));
+	});
+
+	teardown(() => {
+		pending.dispose();
+		writeFeedback.dispose();
+		checkpoints.dispose();
+		fs.rmSync(tmp, { recursive: true, force: true });
+	});
+
+	test('keeps the first original across writes and drops changes written back', async () => {
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'v0');
+		await pending.stage('s', file('a.txt'), 'v1');
+		await pending.stage('s', file('a.txt'), 'v2');
+		const change = pending.get(file('a.txt'));
+		assert.strictEqual(change?.original, 'v0');
+		assert.strictEqual(change?.proposed, 'v2');
+
+		await pending.stage('s', file('a.txt'), 'v0');
+		assert.strictEqual(pending.size, 0);
+		assert.strictEqual(read('a.txt'), 'v0');
+	});
+
+	test('accept writes the proposal and records it for revert', async () => {
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'v0');
+		await pending.stage('s', file('a.txt'), 'v1');
+		await pending.stage('s', file('new.txt'), 'created');
+		assert.strictEqual(pending.get(file('new.txt'))?.original, null);
+
+		for (const change of pending.getAll()) {
+			await pending.accept(change);
+		}
+		assert.strictEqual(pending.size, 0);
+		assert.strictEqual(read('a.txt'), 'v1');
+		assert.strictEqual(read('new.txt'), 'created');
+
+		const [turn] = checkpoints.getTurns('s');
+		assert.deepStrictEqual([...turn.files.values()].map(f => f.before), ['v0', null]);
+	});
+
+	test('acceptHunks writes part of the proposal and keeps the rest pending', async () => {
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'one\ntwo\nthree\nfour\nfive\nsix\n');
+		await pending.stage('s', file('a.txt'), 'ONE\ntwo\nthree\nfour\nfive\nSIX\n');
+		const change = pending.get(file('a.txt'))!;
+		const hunks = computeHunks(change.original!, change.proposed);
+		assert.strictEqual(hunks.length, 2);
+
+		await pending.acceptHunks(change, [hunks[1]]);
+		assert.strictEqual(read('a.txt'), 'one\ntwo\nthree\nfour\nfive\nSIX\n');
+		const rest = pending.get(file('a.txt'))!;
+		assert.strictEqual(rest.original, read('a.txt'));
+		assert.strictEqual(await pending.isStale(rest), false);
+
+		await pending.acceptHunks(rest, computeHunks(rest.original!, rest.proposed));
+		assert.strictEqual(read('a.txt'), 'ONE\ntwo\nthree\nfour\nfive\nSIX\n');
+		assert.strictEqual(pending.size, 0);
+	});
+
+	test('reject leaves the workspace untouched', async () => {
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'v0');
+		await pending.stage('s', file('a.txt'), 'v1');
+		await pending.stage('s', file('new.txt'), 'created');
+		for (const change of pending.getAll()) {
+			pending.reject(change);
+		}
+		assert.strictEqual(pending.size, 0);
+		assert.strictEqual(read('a.txt'), 'v0');
+		assert.ok(!fs.existsSync(path.join(tmp, 'new.txt')));
+		assert.deepStrictEqual(checkpoints.getTurns('s'), []);
+	});
+
+	test('a change is stale once the file no longer matches its original', async () => {
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'v0');
+		await pending.stage('s', file('a.txt'), 'v1');
+		const change = pending.get(file('a.txt'))!;
+		assert.strictEqual(await pending.isStale(change), false);
+		fs.writeFileSync(path.join(tmp, 'a.txt'), 'user edit');
+		assert.strictEqual(await pending.isStale(change), true);
+	});
+
+	test('prune drops the changes of closed sessions', async () => {
+		let changes = 0;
+		pending.onDidChange(() => changes++);
+		await pending.stage('a', file('a.txt'), 'from a');
+		await pending.stage('b', file('b.txt'), 'from b');
+		changes = 0;
+
+		pending.prune(['a', 'b']);
+		assert.strictEqual(changes, 0);
+		pending.prune(['a']);
+		assert.strictEqual(changes, 1);
+		assert.deepStrictEqual(pending.getAll().map(c => c.sessionId), ['a']);
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { ChildProcess, spawn } from 'child_process';
+import { ProcessInfo, processTree, terminateProcessTree } from '../utils/ProcessTree';
+
+suite('ProcessTree', () => {
+	test('lists a process and its descendants, parents first', () => {
+		const table: ProcessInfo[] = [
+			{ pid: 0, ppid: 0, memory: 0 },
+			{ pid: 1, ppid: 0, memory: 10 },
+			{ pid: 12, ppid: 10, memory: 3 },
+			{ pid: 10, ppid: 1, memory: 1 },
+			{ pid: 11, ppid: 10, memory: 2 },
+			{ pid: 20, ppid: 1, memory: 5 },
+			{ pid: 121, ppid: 12, memory: 4 },
+		];
+		assert.deepStrictEqual(processTree(10, table).map(p => p.pid), [10, 12, 11, 121]);
+		assert.deepStrictEqual(processTree(0, table).map(p => p.pid), [0, 1, 10, 20, 12, 11, 121]);
+		// A pid missing from the table is still its own tree.
+		assert.deepStrictEqual(processTree(99, table).map(p => p.pid), [99]);
+	});
+});
+
+// Spawns real process trees; process groups don't exist on Windows.
+(process.platform === 'win32' ? suite.skip : suite)('terminateProcessTree', function () {
+	// Each termination lists the process table with `ps`.
+	this.timeout(10_000);
+	const spawned: number[] = [];
+
+	/** Start `script` in its own process group; resolves with the leader, its exit signal and the pid the script echoes. */
+	const start = (script: string) => new Promise<{ leader: ChildProcess; exited: Promise<NodeJS.Signals | null>; child: number }>((resolve, reject) => {
+		const leader = spawn('sh', ['-c', script], { detached: true, stdio: ['ignore', 'pipe', 'ignore'] });
+		const exited = new Promise<NodeJS.Signals | null>(resolveExit => leader.once('exit', (_code, signal) => resolveExit(signal)));
+		leader.once('error', reject);
+		leader.stdout!.once('data', data => {
+			const child = Number(String(data).trim());
+			spawned.push(leader.pid!, child);
+			resolve({ leader, exited, child });
+		});
+	});
+
+	const isAlive = (pid: number) => {
+		try {
+			process.kill(pid, 0);
+			return true;
+		} catch {
+			return false;
+		}
+	};
+
+	/** Wait for init to reap an orphaned process. */
+	const waitForExit = async (pid: number, timeoutMs = 2000) => {
+		for (const deadline = Date.now() + timeoutMs; isAlive(pid) && Date.now() < deadline;) {
+			await new Promise(resolve => setTimeout(resolve, 20));
+		}
+		return !isAlive(pid);
+	};
+
+	teardown(() => {
+		for (const pid of spawned.splice(0)) {
+			try {
+				process.kill(pid, 'SIGKILL');
+			} catch {
+				// Already gone.
+			}
+		}
+	});
+
+	test('a tree that exits on SIGTERM is not waited on', async () => {
+		const { leader, child } = await start('sleep 30 & echo $!; wait');
+		const started = Date.now();
+		await terminateProcessTree(leader.pid!, { graceMs: 8000 });
+		assert.ok(Date.now() - started < 4000, 'should return once the tree is gone');
+		assert.ok(await waitForExit(child));
+	});
+
+	test('a tree that ignores SIGTERM gets SIGKILL after the grace period', async () => {
+		const { leader, exited, child } = await start('trap "" TERM; sleep 30 & echo $!; wait');
+		const started = Date.now();
+		await terminateProcessTree(leader.pid!, { graceMs: 300 });
+		assert.ok(Date.now() - started >= 300, 'should wait out the grace period');
+		assert.ok(await waitForExit(child), 'the child should be killed');
+		assert.strictEqual(await exited, 'SIGKILL');
+	});
+
+	test('after the leader exits, its process group is still stopped', async () => {
+		const { leader, exited, child } = await start('sleep 30 & echo $!');
+		await exited;
+		assert.ok(isAlive(child));
+		await terminateProcessTree(leader.pid!, { leaderExited: true, graceMs: 1000 });
+		assert.ok(await waitForExit(child));
+	});
+});
@@ -0,0 +1,225 @@
+import * as assert from 'assert';
+import { EventEmitter } from 'events';
+import * as vscode from 'vscode';
+import type { AgentManager } from '../core/AgentManager';
+import { Checkpoints } from '../core/Checkpoints';
+import type { ConnectionInfo, ConnectionManager } from '../core/ConnectionManager';
+import { SessionManager } from '../core/SessionManager';
+import type { SessionUpdateHandler } from '../handlers/SessionUpdateHandler';
+
+/** Agent processes that are never started. */
+class FakeAgentManager extends EventEmitter {
+	readonly spawned: string[] = [];
+	readonly killed: string[] = [];
+
+	spawnAgent(name: string) {
+		const id = `agent_${this.spawned.length + 1}`;
+		this.spawned.push(name);
+		return { id, name, process: {} };
+	}
+
+	getAgent(id: string) {
+		return { id, process: {} };
+	}
+
+	getRunningAgents() {
+		return [];
+	}
+
+	killAgent(id: string): boolean {
+		this.killed.push(id);
+		return true;
+	}
+
+	async killAll(): Promise<void> {}
+}
+
+/** ACP connections answering `session/new` with numbered sessions. */
+class FakeConnectionManager {
+	readonly connections: Map<string, ConnectionInfo> = new Map();
+	readonly prompts: unknown[] = [];
+	private nextSession = 1;
+
+	async connect(agentId: string): Promise<ConnectionInfo> {
+		const connection = {
+			newSession: async () => ({ sessionId: `session_${this.nextSession++}` }),
+			closeSession: async () => ({}),
+			prompt: async (params: unknown) => {
+				this.prompts.push(params);
+				return { stopReason: 'end_turn' };
+			},
+		};
+		const info = { connection, client: {}, initResponse: { protocolVersion: 1 } } as unknown as ConnectionInfo;
+		this.connections.set(agentId, info);
+		return info;
+	}
+
+	getConnection(agentId: string): ConnectionInfo | undefined {
+		return this.connections.get(agentId);
+	}
+
+	removeConnection(agentId: string): void {
+		this.connections.delete(agentId);
+	}
+
+	dispose(): void {
+		this.connections.clear();
+	}
+}
+
+suite('SessionManager', () => {
+	let agentManager: FakeAgentManager;
+	let connectionManager: FakeConnectionManager;
+	let sessionManager: SessionManager;
+
+	const ids = () => sessionManager.getLiveSessions().map(s => s.sessionId);
+
+	suiteSetup(async () => {
+		await vscode.workspace.getConfiguration('acp').update('agents', {
+			alpha: { command: 'alpha-agent' },
+			beta: { command: 'beta-agent' },
+		}, vscode.ConfigurationTarget.Global);
+	});
+
+	suiteTeardown(async () => {
+		await vscode.workspace.getConfiguration('acp').update('agents', undefined, vscode.ConfigurationTarget.Global);
+	});
+
+	setup(() => {
+		agentManager = new FakeAgentManager();
+		connectionManager = new FakeConnectionManager();
+		sessionManager = new SessionManager(
+			agentManager as unknown as AgentManager,
+			connectionManager as unknown as ConnectionManager,
+			{} as SessionUpdateHandler,
+		);
+	});
+
+	teardown(() => sessionManager.dispose());
+
+	test('connecting to several agents keeps each running', async () => {
+		const alpha = await sessionManager.connectToAgent('alpha');
+		const beta = await sessionManager.connectToAgent('beta');
+		assert.deepStrictEqual(agentManager.spawned, ['alpha', 'beta']);
+		assert.notStrictEqual(alpha.agentId, beta.agentId);
+		assert.deepStrictEqual(ids(), [alpha.sessionId, beta.sessionId]);
+		assert.strictEqual(sessionManager.getActiveSessionId(), beta.sessionId);
+	});
+
+	test('newConversation opens another session on the same connection', async () => {
+		const first = await sessionManager.connectToAgent('alpha');
+		const second = await sessionManager.newConversation();
+		assert.ok(second);
+		assert.strictEqual(second.agentId, first.agentId);
+		assert.deepStrictEqual(agentManager.spawned, ['alpha']);
+		assert.deepStrictEqual(sessionManager.getAgentSessions('alpha').map(s => s.sessionId), [first.sessionId, second.sessionId]);
+		assert.strictEqual(sessionManager.getActiveSessionId(), second.sessionId);
+		assert.strictEqual(await new SessionManager(
+			agentManager as unknown as AgentManager,
+			connectionManager as unknown as ConnectionManager,
+			{} as SessionUpdateHandler,
+		).newConversation(), null);
+	});
+
+	test('setActiveSession reorders by recency without moving the agent', async () => {
+		const alpha = await sessionManager.connectToAgent('alpha');
+		const beta1 = await sessionManager.connectToAgent('beta');
+		const beta2 = await sessionManager.newConversation('beta');
+		assert.ok(beta2);
+		const changes: (string | null)[] = [];
+		sessionManager.on('active-session-changed', id => changes.push(id));
+
+		sessionManager.setActiveSession(alpha.sessionId);
+		assert.deepStrictEqual(sessionManager.getConnectedAgentNames(), ['alpha', 'beta']);
+		assert.deepStrictEqual(ids(), [alpha.sessionId, beta1.sessionId, beta2.sessionId]);
+		sessionManager.setActiveSession(beta1.sessionId);
+		assert.deepStrictEqual(ids(), [alpha.sessionId, beta2.sessionId, beta1.sessionId]);
+		sessionManager.setActiveSession('unknown');
+		assert.deepStrictEqual(changes, [alpha.sessionId, beta1.sessionId]);
+		assert.strictEqual(sessionManager.getActiveSessionId(), beta1.sessionId);
+	});
+
+	test('reconnecting to a connected agent resumes its most recent session', async () => {
+		const alpha1 = await sessionManager.connectToAgent('alpha');
+		await sessionManager.newConversation('alpha');
+		await sessionManager.connectToAgent('beta');
+		sessionManager.setActiveSession(alpha1.sessionId);
+		await sessionManager.connectToAgent('beta');
+		const resumed = await sessionManager.connectToAgent('alpha');
+		assert.strictEqual(resumed.sessionId, alpha1.sessionId);
+		assert.deepStrictEqual(agentManager.spawned, ['alpha', 'beta']);
+	});
+
+	test('closing one of several sessions keeps the agent running', async () => {
+		const alpha1 = await sessionManager.connectToAgent('alpha');
+		const alpha2 = await sessionManager.newConversation('alpha');
+		const beta = await sessionManager.connectToAgent('beta');
+		assert.ok(alpha2);
+		sessionManager.setActiveSession(alpha2.sessionId);
+		const closed: string[] = [];
+		sessionManager.on('session-closed', id => closed.push(id));
+
+		await sessionManager.closeSession(alpha2.sessionId);
+		assert.deepStrictEqual(closed, [alpha2.sessionId]);
+		assert.deepStrictEqual(agentManager.killed, []);
+		assert.deepStrictEqual(ids(), [alpha1.sessionId, beta.sessionId]);
+		// The active session falls back to another of the same agent's.
+		assert.strictEqual(sessionManager.getActiveSessionId(), alpha1.sessionId);
+	});
+
+	test('closing an agent\'s last session disconnects it', async () => {
+		const alpha = await sessionManager.connectToAgent('alpha');
+		const beta = await sessionManager.connectToAgent('beta');
+		sessionManager.setActiveSession(alpha.sessionId);
+		const disconnected: string[] = [];
+		sessionManager.on('agent-disconnected', name => disconnected.push(name));
+
+		await sessionManager.closeSession(alpha.sessionId);
+		assert.deepStrictEqual(disconnected, ['alpha']);
+		assert.deepStrictEqual(agentManager.killed, [alpha.agentId]);
+		assert.strictEqual(connectionManager.getConnection(alpha.agentId), undefined);
+		assert.deepStrictEqual(ids(), [beta.sessionId]);
+		assert.strictEqual(sessionManager.getActiveSessionId(), beta.sessionId);
+
+		await sessionManager.closeSession(beta.sessionId);
+		assert.deepStrictEqual(ids(), []);
+		assert.strictEqual(sessionManager.getActiveSessionId(), null);
+	});
+
+	test('closing an inactive session leaves the active one alone', async () => {
+		const alpha = await sessionManager.connectToAgent('alpha');
+		const beta = await sessionManager.connectToAgent('beta');
+		await sessionManager.closeSession(alpha.sessionId);
+		assert.strictEqual(sessionManager.getActiveSessionId(), beta.sessionId);
+	});
+
+	test('prompts go to the session\'s own connection', async () => {
+		const alpha = await sessionManager.connectToAgent('alpha');
+		const beta = await sessionManager.connectToAgent('beta');
+		await sessionManager.sendPrompt(alpha.sessionId, 'hello alpha');
+		await sessionManager.sendPrompt(beta.sessionId, 'hello beta');
+		assert.deepStrictEqual(connectionManager.prompts, [
+			{ sessionId: alpha.sessionId, prompt: [{ type: 'text', text: 'hello alpha' }] },
+			{ sessionId: beta.sessionId, prompt: [{ type: 'text', text: 'hello beta' }] },
+		]);
+	});
+
+	test('only prompts that are sent open a checkpoint turn', async () => {
+		const checkpoints = new Checkpoints();
+		sessionManager.setCheckpoints(checkpoints);
+		const alpha = await sessionManager.connectToAgent('alpha');
+		const started: number[] = [];
+
+		await sessionManager.sendPrompt(alpha.sessionId, 'one', [], [], turn => started.push(turn.index));
+		// The agent does not advertise image support, so the prompt is refused before it is sent.
+		const image = { kind: 'image' as const, name: 'shot.png', mimeType: 'image/png', data: '' };
+		await assert.rejects(
+			sessionManager.sendPrompt(alpha.sessionId, 'two', [image], [], turn => started.push(turn.index)),
+			/does not accept images/,
+		);
+		assert.deepStrictEqual(started, [1]);
+		assert.strictEqual(checkpoints.getLatestTurn(alpha.sessionId)?.index, 1);
+		assert.ok(!checkpoints.isTurnOpen(alpha.sessionId));
+		checkpoints.dispose();
+	});
+});
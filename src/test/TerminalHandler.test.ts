@@ -0,0 +1,129 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import type { CommandPolicy } from '../core/CommandPolicy';
+import { TerminalHandler } from '../handlers/TerminalHandler';
+
+const LIMITS = ['timeoutSeconds', 'idleTimeoutSeconds', 'maxMemoryMB'];
+
+// Runs real commands; the limits are checked once a second.
+(process.platform === 'win32' ? suite.skip : suite)('TerminalHandler limits', function () {
+	this.timeout(15_000);
+	const allowAll = { check: async () => {} } as unknown as CommandPolicy;
+	let terminals: TerminalHandler;
+
+	const configure = async (settings: Record<string, unknown>) => {
+		const config = vscode.workspace.getConfiguration('acp.terminal');
+		for (const [key, value] of Object.entries(settings)) {
+			await config.update(key, value, vscode.ConfigurationTarget.Global);
+		}
+	};
+
+	/** Run `command` in session `s` and wait for it to exit. */
+	const run = async (command: string) => {
+		const limits: string[] = [];
+		terminals.on('limit', (_sessionId, _terminalId, { reason }) => limits.push(reason));
+		const { terminalId } = await terminals.createTerminal({ sessionId: 's', command });
+		const exit = await terminals.waitForTerminalExit({ sessionId: 's', terminalId });
+		const { output } = await terminals.terminalOutput({ sessionId: 's', terminalId });
+		return { exit, output, limits };
+	};
+
+	suiteSetup(async () => {
+		// Pipes behave the same wherever node-pty's binary is missing.
+		await configure({ usePty: false });
+	});
+
+	suiteTeardown(async () => {
+		await configure({ usePty: undefined });
+	});
+
+	setup(() => {
+		terminals = new TerminalHandler(allowAll);
+	});
+
+	teardown(async () => {
+		terminals.prune([]);
+		await configure(Object.fromEntries(LIMITS.map(key => [key, undefined])));
+	});
+
+	test('commands within the limits run to completion', async () => {
+		await configure({ timeoutSeconds: 5, idleTimeoutSeconds: 5, maxMemoryMB: 1024 });
+		const { exit, output, limits } = await run('echo done');
+		assert.deepStrictEqual(exit, { exitCode: 0, signal: null });
+		assert.strictEqual(output, 'done\n');
+		assert.deepStrictEqual(limits, []);
+	});
+
+	test('kills commands that run past the timeout', async () => {
+		await configure({ timeoutSeconds: 1 });
+		const started = Date.now();
+		const { exit, output, limits } = await run('sleep 30');
+		assert.ok(Date.now() - started < 5000);
+		assert.deepStrictEqual(limits, ['timed out after 1s']);
+		assert.deepStrictEqual(exit, { exitCode: null, signal: 'SIGKILL (timed out after 1s)' });
+		assert.match(output, /\[Killed: timed out after 1s\]/);
+	});
+
+	test('kills commands that stop producing output', async () => {
+		await configure({ idleTimeoutSeconds: 1 });
+		const { exit, output, limits } = await run('echo started; sleep 30');
+		assert.deepStrictEqual(limits, ['no output for 1s']);
+		assert.strictEqual(exit.signal, 'SIGKILL (no output for 1s)');
+		assert.match(output, /^started\n/);
+	});
+
+	test('kills commands whose process tree uses too much memory', async () => {
+		// Any process is over a limit of a few KB.
+		await configure({ maxMemoryMB: 0.001 });
+		const { exit, limits } = await run('sleep 30');
+		assert.strictEqual(limits.length, 1);
+		assert.match(limits[0], /^memory use of \d+ MB exceeded 0\.001 MB$/);
+		assert.strictEqual(exit.exitCode, null);
+		assert.match(exit.signal ?? '', /^SIGKILL \(memory use/);
+	});
+});
+
+(process.platform === 'win32' ? suite.skip : suite)('TerminalHandler sessions', () => {
+	const allowAll = { check: async () => {} } as unknown as CommandPolicy;
+	let terminals: TerminalHandler;
+
+	suiteSetup(async () => {
+		await vscode.workspace.getConfiguration('acp.terminal').update('usePty', false, vscode.ConfigurationTarget.Global);
+	});
+
+	suiteTeardown(async () => {
+		await vscode.workspace.getConfiguration('acp.terminal').update('usePty', undefined, vscode.ConfigurationTarget.Global);
+	});
+
+	setup(() => {
+		terminals = new TerminalHandler(allowAll);
+	});
+
+	teardown(async () => {
+		await terminals.dispose(500);
+	});
+
+	test('other sessions cannot reach a terminal', async () => {
+		const { terminalId } = await terminals.createTerminal({ sessionId: 'a', command: 'sleep 30' });
+		const foreign = { sessionId: 'b', terminalId };
+		for (const request of [
+			() => terminals.terminalOutput(foreign),
+			() => terminals.waitForTerminalExit(foreign),
+			() => terminals.killTerminal(foreign),
+			() => terminals.releaseTerminal(foreign),
+		]) {
+			await assert.rejects(request, /Terminal not found/);
+		}
+		// Still running and still the owner's.
+		const { exitStatus } = await terminals.terminalOutput({ sessionId: 'a', terminalId });
+		assert.strictEqual(exitStatus, undefined);
+		assert.deepStrictEqual(terminals.getTerminals().map(t => t.released), [false]);
+	});
+
+	test('released terminals are gone for their session too', async () => {
+		const { terminalId } = await terminals.createTerminal({ sessionId: 'a', command: 'echo done' });
+		await terminals.releaseTerminal({ sessionId: 'a', terminalId });
+		await assert.rejects(() => terminals.terminalOutput({ sessionId: 'a', terminalId }), /Terminal not found/);
+		assert.deepStrictEqual(terminals.getTerminals().map(t => t.released), [true]);
+	});
+});
@@ -0,0 +1,92 @@
+import * as assert from 'assert';
+import { createStreamDecoder, decodeText, detectEol, encodeText, isBinary, normalizeEol } from '../utils/TextEncoding';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+suite('TextEncoding', () => {
+	test('detects BOMs', () => {
+		assert.deepStrictEqual(decodeText(bytes(0xef, 0xbb, 0xbf, 0x68, 0x69)), {
+			text: 'hi',
+			format: { encoding: 'utf8', bom: true, eol: '\n' },
+		});
+		assert.strictEqual(decodeText(bytes(0xff, 0xfe, 0x68, 0x00, 0x69, 0x00)).text, 'hi');
+		assert.strictEqual(decodeText(bytes(0xff, 0xfe, 0x68, 0x00)).format.encoding, 'utf16le');
+		assert.strictEqual(decodeText(bytes(0xfe, 0xff, 0x00, 0x68, 0x00, 0x69)).text, 'hi');
+		assert.strictEqual(decodeText(bytes(0xfe, 0xff, 0x00, 0x68)).format.encoding, 'utf16be');
+	});
+
+	test('sniffs BOM-less UTF-16 from the position of NUL bytes', () => {
+		const le = decodeText(Buffer.from('hello\nworld', 'utf16le'));
+		assert.deepStrictEqual(le, { text: 'hello\nworld', format: { encoding: 'utf16le', bom: false, eol: '\n' } });
+		const be = decodeText(Buffer.from('hello', 'utf16le').swap16());
+		assert.deepStrictEqual(be, { text: 'hello', format: { encoding: 'utf16be', bom: false, eol: '\n' } });
+	});
+
+	test('treats scattered NUL bytes as binary', () => {
+		assert.ok(isBinary(bytes(0x89, 0x50, 0x4e, 0x47, 0x00, 0x00, 0x0d, 0x0a, 0x00)));
+		assert.ok(!isBinary(Buffer.from('plain text')));
+		assert.ok(!isBinary(Buffer.from('utf-16 text', 'utf16le')));
+		assert.ok(!isBinary(new Uint8Array(0)));
+	});
+
+	test('falls back to Latin-1 for invalid UTF-8', () => {
+		assert.strictEqual(decodeText(Buffer.from('café', 'utf8')).format.encoding, 'utf8');
+		const latin1 = decodeText(Buffer.from('café', 'latin1'));
+		assert.strictEqual(latin1.text, 'café');
+		assert.strictEqual(latin1.format.encoding, 'latin1');
+	});
+
+	test('detects and normalizes line endings', () => {
+		assert.strictEqual(detectEol('a\r\nb\r\nc\n'), '\r\n');
+		assert.strictEqual(detectEol('a\nb\nc\r\n'), '\n');
+		assert.strictEqual(detectEol('no line breaks'), '\n');
+		assert.strictEqual(normalizeEol('a\nb\r\nc', '\r\n'), 'a\r\nb\r\nc');
+		assert.strictEqual(normalizeEol('a\nb\r\nc', '\n'), 'a\nb\nc');
+	});
+
+	test('round-trips every format', () => {
+		const samples = [
+			Buffer.from('café\r\nnaïve\r\n', 'utf8'),
+			Buffer.concat([bytes(0xef, 0xbb, 0xbf), Buffer.from('été\n')]),
+			Buffer.concat([bytes(0xff, 0xfe), Buffer.from('line\r\n中文', 'utf16le')]),
+			Buffer.concat([bytes(0xfe, 0xff), Buffer.from('big\nendian', 'utf16le').swap16()]),
+			Buffer.from('café\n', 'latin1'),
+		];
+		for (const sample of samples) {
+			const { text, format } = decodeText(sample);
+			assert.deepStrictEqual(Buffer.from(encodeText(text, format)), sample, JSON.stringify(format));
+		}
+	});
+
+	test('encodes edited text with the original line endings', () => {
+		const { format } = decodeText(Buffer.from('a\r\nb\r\n'));
+		assert.strictEqual(Buffer.from(encodeText('x\ny\n', format)).toString(), 'x\r\ny\r\n');
+	});
+
+	test('stream decoder keeps characters split across chunks', () => {
+		const text = 'héllo 世界';
+		const encoded = Buffer.from(text);
+		const decoder = createStreamDecoder(encoded.subarray(0, 2));
+		assert.ok(decoder);
+		let decoded = '';
+		for (let i = 0; i < encoded.length; i++) {
+			decoded += decoder.decode(encoded.subarray(i, i + 1));
+		}
+		assert.strictEqual(decoded + decoder.end(), text);
+	});
+
+	test('stream decoder strips the BOM and refuses binary files', () => {
+		const encoded = Buffer.concat([bytes(0xff, 0xfe), Buffer.from('hi', 'utf16le')]);
+		const decoder = createStreamDecoder(encoded);
+		assert.ok(decoder);
+		assert.strictEqual(decoder.decode(encoded) + decoder.end(), 'hi');
+		assert.strictEqual(createStreamDecoder(bytes(0x00, 0x00, 0x01, 0x02, 0x00)), undefined);
+	});
+
+	test('stream decoder does not mistake a cut UTF-8 character for Latin-1', () => {
+		const head = Buffer.from('café').subarray(0, 4);
+		const decoder = createStreamDecoder(head);
+		assert.ok(decoder);
+		assert.strictEqual(decoder.decode(head) + decoder.decode(bytes(0xa9)) + decoder.end(), 'café');
+	});
+});
@@ -1,26 +1,87 @@
 import * as vscode from 'vscode';
 import { marked } from 'marked';
 import { SessionManager } from '../core/SessionManager';
+import type { Turn } from '../core/Checkpoints';
+import { PromptAttachment, MAX_AUDIO_BYTES, audioMimeType } from '../core/PromptContent';
+import { PromptMention, suggestMentions } from '../core/PromptMentions';
 import { SessionUpdateHandler, SessionUpdateListener } from '../handlers/SessionUpdateHandler';
+import { TerminalHandler } from '../handlers/TerminalHandler';
+import { DiffContentProvider } from './DiffContentProvider';
 import type { SessionNotification } from '@agentclientprotocol/sdk';
 import { logError } from '../utils/Logger';
+import { toWorkspaceUri } from '../utils/AgentPaths';
+import { computeHunks, splitLines } from '../utils/LineDiff';
 import { sendEvent } from '../utils/TelemetryManager';
 
+/**
+ * A chat editor tab pinned to one session. Unlike the sidebar, which follows
+ * the active session, a panel always renders the session it was opened for.
+ */
+interface ChatPanel {
+  sessionId: string;
+  panel: vscode.WebviewPanel;
+  /** Set once the session log has been replayed into the panel. */
+  replayed: boolean;
+}
+
+/** Most messages kept per session for replay, after compaction. */
+const MAX_LOGGED_MESSAGES = 2000;
+
+/** Stands in for the messages dropped from the start of a full log. */
+const LOG_TRIMMED = { type: 'warning', message: 'Earlier messages of this conversation are not shown.' };
+
+/** Terminal output sent when a session is shown; the webview keeps as much. */
+const TERMINAL_SNAPSHOT_CHARS = 64 * 1024;
+
 /**
  * WebviewViewProvider for the ACP chat sidebar.
  * Renders chat messages, tool calls, plans, and handles user input.
+ *
+ * The same chat UI can also be opened in editor tabs
+ * ({@link openChatInEditor}), one `WebviewPanel` per session, so several
+ * conversations can sit side by side. Every session-scoped message is
+ * delivered to the sidebar (when it shows that session) and to the
+ * session's panel, if one is open.
  */
 export class ChatWebviewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'acp-chat';
+  public static readonly panelViewType = 'acp-chat-panel';
 
   private view?: vscode.WebviewView;
   private updateListener: SessionUpdateListener;
-  private _hasChatContent = false;
+
+  /**
+   * Messages addressed to live sessions that are not currently shown. They
+   * are replayed into the webview, in order, when the user switches to that
+   * session so background agents never lose output.
+   */
+  private backgroundMessages: Map<string, any[]> = new Map();
+
+  /**
+   * Every session-scoped message sent so far, per live session, compacted
+   * and capped by {@link appendToLog}. Replayed into a newly opened editor
+   * panel so it starts with the transcript.
+   */
+  private sessionLogs: Map<string, any[]> = new Map();
+
+  /** Open editor panels, keyed by the session they are pinned to. */
+  private panels: Map<string, ChatPanel> = new Map();
+
+  /** Sessions with a `session/prompt` request in flight. */
+  private busySessions: Set<string> = new Set();
+
+  /**
+   * Composer messages (e.g. a mention from "Send Selection to Agent")
+   * produced before the sidebar webview was resolved; delivered on `ready`.
+   */
+  private pendingComposerMessages: any[] = [];
 
   constructor(
     private readonly extensionUri: vscode.Uri,
     private readonly sessionManager: SessionManager,
     private readonly sessionUpdateHandler: SessionUpdateHandler,
+    private readonly terminalHandler: TerminalHandler,
+    private readonly diffProvider: DiffContentProvider,
   ) {
     // Configure marked for safe rendering
     marked.setOptions({
@@ -33,6 +94,19 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       this.handleSessionUpdate(update);
     };
     this.sessionUpdateHandler.addListener(this.updateListener);
+
+    // Live output for terminals embedded in tool call cards. Not logged:
+    // surfaces that start showing the session later get a snapshot of each
+    // terminal from the TerminalHandler instead (see postTerminalSnapshots).
+    this.terminalHandler.on('output', (sessionId: string, terminalId: string, data: string) => {
+      this.postToSurfaces(sessionId, { type: 'terminalOutput', terminalId, data });
+    });
+    this.terminalHandler.on('exit', (sessionId: string, terminalId: string, exitStatus: any) => {
+      this.postToSurfaces(sessionId, { type: 'terminalExit', terminalId, exitStatus });
+    });
+    this.terminalHandler.on('limit', (sessionId: string, _terminalId: string, info: { commandLine: string; reason: string }) => {
+      this.notifyWarning(sessionId, `Killed agent command "${info.commandLine}": ${info.reason}. Adjust the acp.terminal limits to allow more.`);
+    });
   }
 
   /**
@@ -70,43 +144,19 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
 
     // Handle messages from the webview
     webviewView.webview.onDidReceiveMessage(async (message) => {
-      switch (message.type) {
-        case 'sendPrompt':
-          this._hasChatContent = true;
-          await this.handleSendPrompt(message.text);
-          break;
-        case 'cancelTurn':
-          await this.handleCancelTurn();
-          break;
-        case 'setMode':
-          await this.handleSetMode(message.modeId);
-          break;
-        case 'setModel':
-          await this.handleSetModel(message.modelId);
-          break;
-        case 'setConfigOption':
-          await this.handleSetConfigOption(message.configId, message.value);
-          break;
-        case 'executeCommand':
-          if (message.command) {
-            await vscode.commands.executeCommand(message.command);
-          }
-          break;
-        case 'ready':
-          // Webview loaded — send current session state
-          this.sendCurrentState();
-          break;
-        case 'renderMarkdown': {
-          // Webview requests markdown rendering for history items
-          const items: Array<{index: number; text: string}> = message.items || [];
-          const rendered = items.map((item: {index: number; text: string}) => ({
-            index: item.index,
-            html: this.renderMarkdown(item.text),
-          }));
-          this.postMessage({ type: 'markdownRendered', items: rendered });
-          break;
+      if (message.type === 'ready') {
+        // Webview loaded — send current session state
+        this.sendCurrentState();
+        for (const pending of this.pendingComposerMessages.splice(0)) {
+          webviewView.webview.postMessage(pending);
         }
+        return;
       }
+      await this.handleWebviewMessage(
+        message,
+        webviewView.webview,
+        this.sessionManager.getActiveSessionId(),
+      );
     });
 
     webviewView.onDidDispose(() => {
@@ -114,6 +164,138 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     });
   }
 
+  /**
+   * Open (or reveal) an editor tab showing `sessionId`. The first panel
+   * opens in the active editor group; further ones open beside it so two
+   * conversations can be read side by side.
+   */
+  openChatInEditor(sessionId: string): void {
+    const existing = this.panels.get(sessionId);
+    if (existing) {
+      existing.panel.reveal();
+      return;
+    }
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) { return; }
+
+    const panel = vscode.window.createWebviewPanel(
+      ChatWebviewProvider.panelViewType,
+      this.panelTitle(sessionId),
+      this.panels.size > 0 ? vscode.ViewColumn.Beside : vscode.ViewColumn.Active,
+      {
+        enableScripts: true,
+        retainContextWhenHidden: true,
+        localResourceRoots: [this.extensionUri],
+      },
+    );
+    panel.iconPath = vscode.Uri.joinPath(this.extensionUri, 'resources', 'icon.svg');
+    panel.webview.html = this.getHtmlContent(panel.webview);
+
+    const entry: ChatPanel = { sessionId, panel, replayed: false };
+    this.panels.set(sessionId, entry);
+    sendEvent('chat/openInEditor', { agentName: session.agentName });
+
+    panel.webview.onDidReceiveMessage(async (message) => {
+      if (message.type === 'ready') {
+        this.sendPanelState(entry);
+        if (!entry.replayed) {
+          entry.replayed = true;
+          for (const logged of this.sessionLogs.get(sessionId) ?? []) {
+            panel.webview.postMessage(logged);
+          }
+          this.postTerminalSnapshots(sessionId, panel.webview);
+        }
+        return;
+      }
+      await this.handleWebviewMessage(message, panel.webview, sessionId);
+    });
+
+    panel.onDidDispose(() => {
+      if (this.panels.get(sessionId) === entry) {
+        this.panels.delete(sessionId);
+      }
+    });
+  }
+
+  /**
+   * Handle a message from any chat webview. `sessionId` is the session that
+   * webview is showing: the active one for the sidebar, the pinned one for
+   * an editor panel.
+   */
+  private async handleWebviewMessage(message: any, webview: vscode.Webview, sessionId: string | null): Promise<void> {
+    switch (message.type) {
+      case 'sendPrompt':
+        await this.handleSendPrompt(
+          message.text || '',
+          message.attachments || [],
+          message.mentions || [],
+          sessionId,
+          webview,
+        );
+        break;
+      case 'mentionQuery': {
+        const items = await suggestMentions(String(message.query || ''));
+        webview.postMessage({ type: 'mentionResults', requestId: message.requestId, items });
+        break;
+      }
+      case 'attachFiles':
+        await this.pickAttachments(webview);
+        break;
+      case 'cancelTurn':
+        await this.handleCancelTurn(sessionId);
+        break;
+      case 'setMode':
+        await this.handleSetMode(message.modeId, sessionId, webview);
+        break;
+      case 'setModel':
+        await this.handleSetModel(message.modelId, sessionId, webview);
+        break;
+      case 'setConfigOption':
+        await this.handleSetConfigOption(message.configId, message.value, sessionId, webview);
+        break;
+      case 'switchSession':
+        if (message.sessionId) {
+          this.sessionManager.setActiveSession(message.sessionId);
+        }
+        break;
+      case 'executeCommand':
+        if (message.command) {
+          await vscode.commands.executeCommand(message.command);
+        }
+        break;
+      case 'revertTurn':
+        if (sessionId && message.turn) {
+          await vscode.commands.executeCommand('acp.revertToTurn', { sessionId, turn: message.turn });
+        }
+        break;
+      case 'turnFileDiff':
+        if (sessionId && message.turn && message.uri) {
+          await this.showTurnFileDiff(sessionId, message.turn, message.uri);
+        }
+        break;
+      case 'openLocation':
+        if (message.path) {
+          await this.openLocation(message.path, message.line, false);
+        }
+        break;
+      case 'viewDiff':
+        if (message.path) {
+          await this.diffProvider.showDiff(toWorkspaceUri(message.path), message.oldText ?? null, message.newText ?? '');
+        }
+        break;
+      case 'renderMarkdown': {
+        // Webview requests markdown rendering for history items
+        const items: Array<{index: number; text: string}> = message.items || [];
+        const rendered = items.map((item: {index: number; text: string}) => ({
+          index: item.index,
+          html: this.renderMarkdown(item.text),
+        }));
+        webview.postMessage({ type: 'markdownRendered', items: rendered, sessionId: message.sessionId });
+        break;
+      }
+    }
+  }
+
   /**
    * Forward session update to webview.
    */
@@ -143,26 +325,66 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
         updatedAt: updateData.updatedAt,
       });
     }
+    if ((updateData?.sessionUpdate === 'tool_call' || updateData?.sessionUpdate === 'tool_call_update')
+      && updateData.locations?.length > 0) {
+      this.followToolCallLocation(update.sessionId, updateData.locations.at(-1));
+    }
 
-    // Only forward to the webview if this is the active session — the
-    // webview only ever shows one session at a time.
-    const activeId = this.sessionManager.getActiveSessionId();
-    if (update.sessionId !== activeId) { return; }
-
-    this.postMessage({
+    // The sidebar only ever shows one session at a time; updates for other
+    // live sessions are held back until the user switches to them.
+    this.broadcastToSession(update.sessionId, {
       type: 'sessionUpdate',
-      update: update.update,
+      update: withDiffHunks(update.update),
       sessionId: update.sessionId,
     });
   }
 
   /**
-   * Handle a prompt sent from the webview.
+   * With `acp.followAgent` on, reveal where a tool call of an on-screen
+   * session is reading or editing, without taking focus from the chat.
    */
-  private async handleSendPrompt(text: string): Promise<void> {
-    const activeId = this.sessionManager.getActiveSessionId();
-    if (!activeId) {
-      this.postMessage({
+  private followToolCallLocation(sessionId: string, location: { path: string; line?: number | null }): void {
+    if (!vscode.workspace.getConfiguration('acp').get<boolean>('followAgent', false)) { return; }
+    if (sessionId !== this.sessionManager.getActiveSessionId() && !this.panels.has(sessionId)) { return; }
+    this.openLocation(location.path, location.line, true).catch(e => {
+      logError(`Failed to follow agent to ${location.path}`, e);
+    });
+  }
+
+  /**
+   * Open a tool call location (ACP lines are 1-based). Opens beside a chat
+   * editor tab instead of replacing it.
+   */
+  private async openLocation(path: string, line: number | null | undefined, preserveFocus: boolean): Promise<void> {
+    const position = new vscode.Position(Math.max(0, (line ?? 1) - 1), 0);
+    const chatTabActive = [...this.panels.values()].some(p => p.panel.active);
+    try {
+      await vscode.window.showTextDocument(toWorkspaceUri(path), {
+        preview: true,
+        preserveFocus,
+        selection: new vscode.Range(position, position),
+        viewColumn: chatTabActive ? vscode.ViewColumn.Beside : undefined,
+      });
+    } catch (e: any) {
+      if (preserveFocus) { throw e; }
+      vscode.window.showWarningMessage(`Could not open ${path}: ${e.message}`);
+    }
+  }
+
+  /**
+   * Handle a prompt sent from a chat webview. The sending webview renders
+   * the prompt itself; other webviews showing the session get it echoed as
+   * a `user_message_chunk`.
+   */
+  private async handleSendPrompt(
+    text: string,
+    attachments: PromptAttachment[],
+    mentions: PromptMention[],
+    sessionId: string | null,
+    origin: vscode.Webview,
+  ): Promise<void> {
+    if (!sessionId || !this.sessionManager.getSession(sessionId)) {
+      origin.postMessage({
         type: 'error',
         message: 'No active session. Create a session first.',
       });
@@ -170,46 +392,108 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     }
 
     sendEvent('chat/messageSent', {
-      agentName: this.sessionManager.getActiveAgentName() ?? '',
+      agentName: this.sessionManager.getSession(sessionId)?.agentName ?? '',
     }, {
       messageLength: text.length,
+      attachmentCount: attachments.length,
+      mentionCount: mentions.length,
     });
 
     // Record the first prompt for the history store (used as a label
     // fallback when no title is supplied by the agent).
-    this.sessionManager.recordFirstPrompt(activeId, text);
+    this.sessionManager.recordFirstPrompt(sessionId, text);
+
+    // Image and audio payloads are left out: they would be kept in the
+    // session log. Other views show the image thumbnail, or the name.
+    const echoed = [
+      ...(text ? [{ type: 'text', text }] : []),
+      ...attachments.map(a => a.kind === 'file'
+        ? { type: 'resource_link', uri: a.uri, name: a.name }
+        : { type: a.kind, mimeType: a.mimeType, name: a.name, thumbnail: a.kind === 'image' ? a.thumbnail : undefined }),
+    ];
+    for (const content of echoed) {
+      this.broadcastToSession(sessionId, {
+        type: 'sessionUpdate',
+        update: { sessionUpdate: 'user_message_chunk', content },
+        sessionId,
+      }, origin);
+    }
 
     // Tell webview we're processing
-    this.postMessage({ type: 'promptStart' });
+    this.busySessions.add(sessionId);
+    this.broadcastToSession(sessionId, { type: 'promptStart' });
 
+    // Only a turn this prompt opened gets a summary; a prompt that fails
+    // before it is sent must not repeat the previous turn's.
+    let turn: Turn | undefined;
     try {
-      const response = await this.sessionManager.sendPrompt(activeId, text);
+      const response = await this.sessionManager.sendPrompt(sessionId, text, attachments, mentions, t => { turn = t; });
       // Render the accumulated assistant text as markdown
       // The webview will have sent us the raw text via promptEnd handling
-      this.postMessage({
+      this.busySessions.delete(sessionId);
+      this.postTurnCheckpoint(sessionId, turn);
+      this.broadcastToSession(sessionId, {
         type: 'promptEnd',
         stopReason: response.stopReason,
         usage: (response as any).usage,
       });
-      this.sessionManager.touchHistory(activeId);
+      this.sessionManager.touchHistory(sessionId);
     } catch (e: any) {
       logError('Prompt failed', e);
-      this.postMessage({
+      this.busySessions.delete(sessionId);
+      this.postTurnCheckpoint(sessionId, turn);
+      this.broadcastToSession(sessionId, {
         type: 'error',
         message: e.message || 'Prompt failed',
       });
-      this.postMessage({ type: 'promptEnd', stopReason: 'error' });
+      this.broadcastToSession(sessionId, { type: 'promptEnd', stopReason: 'error' });
     }
   }
 
+  /**
+   * Add a "Files changed this turn" summary with a Revert action to the
+   * transcript when the turn that just ended wrote files.
+   */
+  private postTurnCheckpoint(sessionId: string, turn: Turn | undefined): void {
+    if (!turn || turn.files.size === 0) { return; }
+    this.broadcastToSession(sessionId, {
+      type: 'turnCheckpoint',
+      turn: turn.index,
+      files: [...turn.files.values()].map(f => ({
+        path: vscode.workspace.asRelativePath(f.uri),
+        uri: f.uri.toString(),
+        created: f.before === null,
+      })),
+    });
+  }
+
+  /** Diff a file from a turn's summary against its state before the turn. */
+  private async showTurnFileDiff(sessionId: string, turnIndex: number, uri: string): Promise<void> {
+    const snapshot = this.sessionManager.getCheckpoints()?.getTurn(sessionId, turnIndex)?.files.get(uri);
+    if (!snapshot) {
+      vscode.window.showInformationMessage('The checkpoint for this change is no longer available.');
+      return;
+    }
+    await vscode.commands.executeCommand('acp.openCheckpointDiff', { snapshot });
+  }
+
+  /** Show a warning (e.g. a blocked file access) in a session's transcript. */
+  notifyWarning(sessionId: string, message: string): void {
+    this.broadcastToSession(sessionId, { type: 'warning', message });
+  }
+
+  /** Mark checkpoint rows from turn `fromTurn` on as reverted. */
+  notifyTurnsReverted(sessionId: string, fromTurn: number): void {
+    this.broadcastToSession(sessionId, { type: 'turnsReverted', fromTurn });
+  }
+
   /**
    * Handle cancel request from webview.
    */
-  private async handleCancelTurn(): Promise<void> {
-    const activeId = this.sessionManager.getActiveSessionId();
-    if (activeId) {
+  private async handleCancelTurn(sessionId: string | null): Promise<void> {
+    if (sessionId) {
       try {
-        await this.sessionManager.cancelTurn(activeId);
+        await this.sessionManager.cancelTurn(sessionId);
       } catch (e) {
         logError('Cancel failed', e);
       }
@@ -219,28 +503,26 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
   /**
    * Handle mode change from webview picker.
    */
-  private async handleSetMode(modeId: string): Promise<void> {
-    const activeId = this.sessionManager.getActiveSessionId();
-    if (!activeId || !modeId) { return; }
+  private async handleSetMode(modeId: string, sessionId: string | null, origin: vscode.Webview): Promise<void> {
+    if (!sessionId || !modeId) { return; }
     try {
-      await this.sessionManager.setMode(activeId, modeId);
+      await this.sessionManager.setMode(sessionId, modeId);
     } catch (e: any) {
       logError('Failed to set mode', e);
-      this.postMessage({ type: 'error', message: `Failed to set mode: ${e.message}` });
+      origin.postMessage({ type: 'error', message: `Failed to set mode: ${e.message}` });
     }
   }
 
   /**
    * Handle model change from webview picker.
    */
-  private async handleSetModel(modelId: string): Promise<void> {
-    const activeId = this.sessionManager.getActiveSessionId();
-    if (!activeId || !modelId) { return; }
+  private async handleSetModel(modelId: string, sessionId: string | null, origin: vscode.Webview): Promise<void> {
+    if (!sessionId || !modelId) { return; }
     try {
-      await this.sessionManager.setModel(activeId, modelId);
+      await this.sessionManager.setModel(sessionId, modelId);
     } catch (e: any) {
       logError('Failed to set model', e);
-      this.postMessage({ type: 'error', message: `Failed to set model: ${e.message}` });
+      origin.postMessage({ type: 'error', message: `Failed to set model: ${e.message}` });
     }
   }
 
@@ -250,18 +532,17 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
    * configOptions state which we re-broadcast so any cascading
    * changes are reflected in the UI.
    */
-  private async handleSetConfigOption(configId: string, value: string): Promise<void> {
-    const activeId = this.sessionManager.getActiveSessionId();
-    if (!activeId || !configId) { return; }
+  private async handleSetConfigOption(configId: string, value: string, sessionId: string | null, origin: vscode.Webview): Promise<void> {
+    if (!sessionId || !configId) { return; }
     try {
-      const options = await this.sessionManager.setConfigOption(activeId, configId, value);
-      this.postMessage({ type: 'configOptionsUpdate', configOptions: options });
+      const options = await this.sessionManager.setConfigOption(sessionId, configId, value);
+      this.notifyConfigOptionsUpdate(sessionId, options);
     } catch (e: any) {
       logError('Failed to set config option', e);
-      this.postMessage({ type: 'error', message: `Failed to set ${configId}: ${e.message}` });
+      origin.postMessage({ type: 'error', message: `Failed to set ${configId}: ${e.message}` });
       // Roll back optimistic update on the webview by replaying current state
-      const session = this.sessionManager.getSession(activeId);
-      this.postMessage({
+      const session = this.sessionManager.getSession(sessionId);
+      origin.postMessage({
         type: 'configOptionsUpdate',
         configOptions: session?.configOptions ?? null,
       });
@@ -269,14 +550,19 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * Send current session state to the webview on load.
+   * Build the `state` message describing one session (or no session).
    */
-  private sendCurrentState(): void {
-    const activeId = this.sessionManager.getActiveSessionId();
-    const session = activeId ? this.sessionManager.getSession(activeId) : null;
-    this.postMessage({
+  private buildStateMessage(sessionId: string | null, liveSessions: Array<{ sessionId: string; agentDisplayName: string; title?: string }>): any {
+    const session = sessionId ? this.sessionManager.getSession(sessionId) : null;
+    return {
       type: 'state',
-      activeSessionId: activeId,
+      activeSessionId: sessionId,
+      turnInProgress: sessionId ? this.busySessions.has(sessionId) : false,
+      liveSessions: liveSessions.map(s => ({
+        sessionId: s.sessionId,
+        agentName: s.agentDisplayName,
+        title: s.title,
+      })),
       session: session ? {
         sessionId: session.sessionId,
         agentName: session.agentDisplayName,
@@ -286,8 +572,85 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
         models: session.models,
         configOptions: session.configOptions,
         availableCommands: session.availableCommands,
+        promptCapabilities: session.initResponse.agentCapabilities?.promptCapabilities ?? {},
       } : null,
-    });
+    };
+  }
+
+  /**
+   * Send current session state to the webview on load.
+   */
+  private sendCurrentState(): void {
+    const activeId = this.sessionManager.getActiveSessionId();
+    const liveSessions = this.sessionManager.getLiveSessions();
+
+    this.pruneSessionBuffers();
+    this.postMessage(this.buildStateMessage(activeId, liveSessions));
+
+    // Replay whatever the newly-shown session produced while hidden.
+    if (activeId) {
+      const pending = this.backgroundMessages.get(activeId);
+      if (pending) {
+        this.backgroundMessages.delete(activeId);
+        for (const message of pending) {
+          this.postMessage(message);
+        }
+      }
+      if (this.view) {
+        this.postTerminalSnapshots(activeId, this.view.webview);
+      }
+    }
+  }
+
+  /**
+   * Send the current output and exit status of each of the session's
+   * terminals, replacing what the webview has for them.
+   */
+  private postTerminalSnapshots(sessionId: string, webview: vscode.Webview): void {
+    for (const terminal of this.terminalHandler.getTerminals()) {
+      if (terminal.sessionId !== sessionId) { continue; }
+      const output = this.terminalHandler.getOutput(terminal.id) ?? '';
+      webview.postMessage({
+        type: 'terminalSnapshot',
+        terminalId: terminal.id,
+        text: output.slice(-TERMINAL_SNAPSHOT_CHARS),
+        exitStatus: terminal.endedAt === undefined
+          ? undefined
+          : { exitCode: terminal.exitCode, signal: terminal.exitSignal },
+      });
+    }
+  }
+
+  /**
+   * Send a panel its pinned session's state. The panel never shows the
+   * session switcher; once its session is gone it drops to the
+   * disconnected state but keeps the transcript on screen.
+   */
+  private sendPanelState(entry: ChatPanel): void {
+    const session = this.sessionManager.getSession(entry.sessionId);
+    entry.panel.title = this.panelTitle(entry.sessionId);
+    entry.panel.webview.postMessage(
+      this.buildStateMessage(session ? entry.sessionId : null, session ? [session] : []),
+    );
+  }
+
+  private panelTitle(sessionId: string): string {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) { return 'ACP Chat (closed)'; }
+    return session.title
+      ? `${session.agentDisplayName}: ${session.title}`
+      : session.agentDisplayName;
+  }
+
+  /** Drop buffered output and logs for sessions that are gone. */
+  private pruneSessionBuffers(): void {
+    for (const buffers of [this.backgroundMessages, this.sessionLogs]) {
+      for (const sessionId of buffers.keys()) {
+        if (!this.sessionManager.getSession(sessionId)) {
+          buffers.delete(sessionId);
+        }
+      }
+    }
   }
 
   /**
@@ -297,32 +660,91 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     this.view?.webview.postMessage(message);
   }
 
+  /**
+   * Post a message that belongs to a specific session: delivered right away
+   * if that session is on screen, otherwise queued until it is switched to.
+   */
+  private postToSession(sessionId: string, message: any): void {
+    if (sessionId === this.sessionManager.getActiveSessionId()) {
+      this.postMessage(message);
+      return;
+    }
+    if (!this.sessionManager.getSession(sessionId)) { return; }
+    const queue = this.backgroundMessages.get(sessionId) ?? [];
+    appendToLog(queue, message);
+    this.backgroundMessages.set(sessionId, queue);
+  }
+
+  /**
+   * Deliver a transcript message to every surface showing `sessionId` —
+   * the sidebar (queued if it shows another session) and the session's
+   * editor panel — and record it for panels opened later. `origin`, if
+   * given, is skipped because it already rendered the message itself.
+   */
+  private broadcastToSession(sessionId: string, message: any, origin?: vscode.Webview): void {
+    if (!this.sessionManager.getSession(sessionId)) { return; }
+    const log = this.sessionLogs.get(sessionId) ?? [];
+    appendToLog(log, message);
+    this.sessionLogs.set(sessionId, log);
+
+    if (!this.view || this.view.webview !== origin) {
+      this.postToSession(sessionId, message);
+    }
+    const panel = this.panels.get(sessionId)?.panel;
+    if (panel && panel.webview !== origin) {
+      panel.webview.postMessage(message);
+    }
+  }
+
+  /**
+   * Deliver a state-only message (picker values, load overlay, title) to the
+   * surfaces currently showing `sessionId`. Not queued: the sidebar gets the
+   * latest values in the `state` message when it switches sessions.
+   */
+  private postToSurfaces(sessionId: string, message: any): void {
+    if (sessionId === this.sessionManager.getActiveSessionId()) {
+      this.postMessage(message);
+    }
+    this.panels.get(sessionId)?.panel.webview.postMessage(message);
+  }
+
   /**
    * Notify webview of a new active session.
    */
   notifyActiveSessionChanged(): void {
+    this.notifySessionsChanged();
+  }
+
+  /**
+   * Refresh the sidebar (session switcher) and editor panels after sessions
+   * were opened or closed, and drop state for sessions that are gone.
+   */
+  notifySessionsChanged(): void {
     this.sendCurrentState();
+    for (const entry of this.panels.values()) {
+      this.sendPanelState(entry);
+    }
   }
 
   /**
    * Notify webview of mode state changes.
    */
-  notifyModesUpdate(modes: any): void {
-    this.postMessage({ type: 'modesUpdate', modes });
+  notifyModesUpdate(sessionId: string, modes: any): void {
+    this.postToSurfaces(sessionId, { type: 'modesUpdate', modes });
   }
 
   /**
    * Notify webview of model state changes.
    */
-  notifyModelsUpdate(models: any): void {
-    this.postMessage({ type: 'modelsUpdate', models });
+  notifyModelsUpdate(sessionId: string, models: any): void {
+    this.postToSurfaces(sessionId, { type: 'modelsUpdate', models });
   }
 
   /**
    * Notify webview of session config-option state changes.
    */
-  notifyConfigOptionsUpdate(configOptions: any): void {
-    this.postMessage({ type: 'configOptionsUpdate', configOptions });
+  notifyConfigOptionsUpdate(sessionId: string, configOptions: any): void {
+    this.postToSurfaces(sessionId, { type: 'configOptionsUpdate', configOptions });
   }
 
   /**
@@ -330,34 +752,22 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
    * wipes any previously-displayed history, disables input, and shows a
    * loading overlay until {@link notifyLoadSessionEnd} fires.
    */
-  notifyLoadSessionStart(): void {
-    this.postMessage({ type: 'loadSessionStart' });
+  notifyLoadSessionStart(sessionId: string): void {
+    this.postToSurfaces(sessionId, { type: 'loadSessionStart' });
   }
 
   /** Notify webview that the active replay finished (success or failure). */
-  notifyLoadSessionEnd(ok: boolean): void {
-    this.postMessage({ type: 'loadSessionEnd', ok });
+  notifyLoadSessionEnd(sessionId: string, ok: boolean): void {
+    this.postToSurfaces(sessionId, { type: 'loadSessionEnd', ok });
   }
 
   /** Notify webview that session title / metadata changed. */
-  notifySessionInfoUpdate(title: string | undefined | null): void {
-    this.postMessage({ type: 'sessionInfoUpdate', title: title ?? null });
-  }
-
-  /**
-   * Clear the chat history and reset to welcome state.
-   * Called when starting a new conversation.
-   */
-  clearChat(): void {
-    this._hasChatContent = false;
-    this.postMessage({ type: 'clearChat' });
-  }
-
-  /**
-   * Whether the chat has any messages.
-   */
-  get hasChatContent(): boolean {
-    return this._hasChatContent;
+  notifySessionInfoUpdate(sessionId: string, title: string | undefined | null): void {
+    this.postToSurfaces(sessionId, { type: 'sessionInfoUpdate', title: title ?? null });
+    const entry = this.panels.get(sessionId);
+    if (entry) {
+      entry.panel.title = this.panelTitle(sessionId);
+    }
   }
 
   /**
@@ -371,7 +781,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
 <head>
   <meta charset="UTF-8">
   <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; img-src ${webview.cspSource} data:; media-src data:; script-src 'nonce-${nonce}';">
   <title>ACP Chat</title>
   <style>
     :root {
@@ -418,6 +828,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       opacity: 0.7;
       flex-shrink: 0;
     }
+    .session-banner .picker-wrap { flex-shrink: 0; }
 
     /* Messages area */
     .messages {
@@ -593,6 +1004,14 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       border: 1px solid var(--vscode-inputValidation-errorBorder);
     }
 
+    .message.warning {
+      align-self: center;
+      background: var(--vscode-inputValidation-warningBackground);
+      color: var(--vscode-foreground);
+      border: 1px solid var(--vscode-inputValidation-warningBorder);
+      font-size: 0.9em;
+    }
+
     /* Turn container — groups assistant text + tool calls */
     .turn {
       display: flex;
@@ -639,7 +1058,8 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       text-align: center;
     }
     .tool-call-inline .tc-icon.pending { color: var(--vscode-badge-foreground); }
-    .tool-call-inline .tc-icon.running { color: var(--vscode-progressBar-background); }
+    .tool-call-inline .tc-icon.running,
+    .tool-call-inline .tc-icon.in_progress { color: var(--vscode-progressBar-background); }
     .tool-call-inline .tc-icon.completed { color: var(--vscode-testing-iconPassed); }
     .tool-call-inline .tc-icon.failed { color: var(--vscode-testing-iconFailed); }
     .tool-call-inline .tc-title {
@@ -649,6 +1069,130 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       white-space: nowrap;
     }
 
+    /* Expandable tool call details (diffs, output, raw input/output) */
+    .tool-call-card.has-details > .tool-call-inline,
+    .tool-call.has-details .title { cursor: pointer; }
+    .tool-call-inline .tc-chevron {
+      flex-shrink: 0;
+      width: 10px;
+      opacity: 0.7;
+    }
+    .has-details .tc-chevron::before { content: '▸'; }
+    .has-details.expanded .tc-chevron::before { content: '▾'; }
+    .tc-body {
+      display: none;
+      flex-direction: column;
+      gap: 4px;
+      margin: 4px 0 6px 16px;
+      font-size: 0.85em;
+    }
+    .expanded > .tc-body { display: flex; }
+    .tc-body pre {
+      margin: 0;
+      padding: 6px 8px;
+      max-height: 300px;
+      overflow: auto;
+      border-radius: 4px;
+      background: var(--vscode-textCodeBlock-background);
+      font-family: var(--vscode-editor-font-family);
+      font-size: var(--vscode-editor-font-size);
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    .tc-body img { max-width: 100%; border-radius: 4px; }
+    .tc-diff-header {
+      display: flex;
+      gap: 8px;
+      margin-bottom: 2px;
+      font-family: var(--vscode-editor-font-family);
+      opacity: 0.85;
+    }
+    .tc-diff-header .added { color: var(--vscode-gitDecoration-addedResourceForeground); }
+    .tc-diff-header .removed { color: var(--vscode-gitDecoration-deletedResourceForeground); }
+    .tc-diff-header .tc-diff-open {
+      margin-left: auto;
+      padding: 0;
+      border: none;
+      background: none;
+      color: var(--vscode-textLink-foreground);
+      font-size: inherit;
+      cursor: pointer;
+    }
+    .tc-diff-header .tc-diff-open:hover { text-decoration: underline; }
+    .diff-line { display: block; }
+    .diff-line.add { background: var(--vscode-diffEditor-insertedLineBackground, rgba(155, 185, 85, 0.2)); }
+    .diff-line.del { background: var(--vscode-diffEditor-removedLineBackground, rgba(255, 0, 0, 0.2)); }
+    .diff-line.skip { opacity: 0.5; }
+    .tc-raw summary {
+      cursor: pointer;
+      opacity: 0.8;
+      user-select: none;
+    }
+    .tc-terminal-exit { opacity: 0.7; }
+    .tc-locations {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px 10px;
+    }
+    .tc-locations a {
+      color: var(--vscode-textLink-foreground);
+      font-family: var(--vscode-editor-font-family);
+      text-decoration: none;
+    }
+    .tc-locations a:hover { text-decoration: underline; }
+
+    /* Per-turn checkpoint row (files changed + revert) */
+    .turn-checkpoint {
+      padding: 3px 8px;
+      font-size: 0.85em;
+      border-radius: 4px;
+      background: var(--vscode-editorWidget-background);
+      opacity: 0.9;
+    }
+    .turn-checkpoint .cp-header {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .turn-checkpoint .cp-label { flex: 1; cursor: pointer; user-select: none; }
+    .turn-checkpoint .cp-files {
+      display: none;
+      margin: 4px 0 2px;
+      padding-left: 16px;
+      list-style: none;
+    }
+    .turn-checkpoint.expanded .cp-files { display: block; }
+    .turn-checkpoint .cp-files li {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 1px 0;
+    }
+    .turn-checkpoint .cp-file {
+      flex: 1;
+      text-align: left;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .turn-checkpoint .cp-created {
+      color: var(--vscode-gitDecoration-addedResourceForeground);
+    }
+    .turn-checkpoint button {
+      padding: 0;
+      border: none;
+      background: none;
+      color: var(--vscode-textLink-foreground);
+      font-size: inherit;
+      cursor: pointer;
+    }
+    .turn-checkpoint button:hover { text-decoration: underline; }
+    .turn-checkpoint button:disabled {
+      color: var(--vscode-descriptionForeground);
+      cursor: default;
+      text-decoration: none;
+    }
+
     /* Legacy standalone tool-call card (for history restore) */
     .tool-call {
       padding: 8px 12px;
@@ -883,6 +1427,15 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       margin-bottom: 4px;
     }
     .picker-dropdown.open { display: block; }
+    /* Variant that opens downwards (used by the banner's agent switcher) */
+    .picker-dropdown.below {
+      bottom: auto;
+      top: 100%;
+      left: auto;
+      right: 0;
+      margin-bottom: 0;
+      margin-top: 4px;
+    }
     .picker-dropdown-item {
       padding: 6px 10px;
       cursor: pointer;
@@ -981,6 +1534,83 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       border-color: var(--vscode-focusBorder);
     }
 
+    /* Attachment chips (composer, and on sent user messages) */
+    .attachment-chips {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 4px;
+      padding: 0 var(--container-padding) 6px;
+      flex-shrink: 0;
+    }
+    .attachment-chips.hidden { display: none; }
+    .message.user .attachment-chips { padding: 6px 0 0; }
+    .attachment-chip {
+      display: inline-flex;
+      align-items: center;
+      gap: 4px;
+      max-width: 100%;
+      padding: 1px 6px;
+      border-radius: 10px;
+      background: var(--vscode-badge-background);
+      color: var(--vscode-badge-foreground);
+      font-size: 11px;
+      white-space: nowrap;
+    }
+    .attachment-chip .chip-label {
+      overflow: hidden;
+      text-overflow: ellipsis;
+    }
+    .attachment-chip .chip-thumb {
+      width: 16px;
+      height: 16px;
+      object-fit: cover;
+      border-radius: 2px;
+    }
+    .message-images {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      padding-top: 6px;
+    }
+    .message-audio {
+      padding-top: 6px;
+    }
+    .message-audio audio {
+      max-width: 100%;
+      height: 32px;
+    }
+    .message-thumb {
+      max-width: 160px;
+      max-height: 120px;
+      border-radius: 4px;
+      object-fit: contain;
+      background: var(--vscode-editor-background);
+    }
+    .attachment-chip .chip-remove {
+      background: none;
+      border: none;
+      color: inherit;
+      cursor: pointer;
+      padding: 0 2px;
+      font-size: 12px;
+      line-height: 1;
+      opacity: 0.8;
+    }
+    .attachment-chip .chip-remove:hover { opacity: 1; }
+    .attach-btn {
+      background: none;
+      border: none;
+      border-radius: 4px;
+      color: var(--vscode-foreground);
+      cursor: pointer;
+      padding: 2px 6px;
+      opacity: 0.8;
+    }
+    .attach-btn:hover {
+      background: var(--vscode-toolbar-hoverBackground);
+      opacity: 1;
+    }
+
     /* Send row */
     .input-send-row {
       display: flex;
@@ -1126,6 +1756,15 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       <div class="agent" id="bannerAgent"></div>
       <div class="cwd" id="bannerCwd"></div>
     </div>
+    <!-- Switches between live agents; hidden unless 2+ are connected -->
+    <div class="picker-wrap hidden" id="sessionSwitcherWrap">
+      <button class="picker-btn" id="sessionSwitcherBtn" title="Switch agent">
+        <span class="picker-icon">⇄</span>
+        <span class="picker-label" id="sessionSwitcherLabel">Agents</span>
+        <span class="picker-chevron">▾</span>
+      </button>
+      <div class="picker-dropdown below" id="sessionSwitcherDropdown"></div>
+    </div>
     <span class="status" id="status"></span>
   </div>
 
@@ -1150,6 +1789,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     <div class="slash-popup" id="slashPopup">
       <div class="slash-popup-header">Commands</div>
     </div>
+    <div class="slash-popup" id="mentionPopup"></div>
     <div class="input-resize-handle" id="resizeHandle"></div>
     <div class="input-toolbar">
       <!-- Dynamic config-options pickers (ACP "Session Config Options"). -->
@@ -1173,6 +1813,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       </div>
       <span class="toolbar-spacer"></span>
     </div>
+    <div class="attachment-chips hidden" id="attachmentChips"></div>
     <div class="input-editor-wrap">
       <textarea
         id="promptInput"
@@ -1181,6 +1822,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       ></textarea>
     </div>
     <div class="input-send-row">
+      <button class="attach-btn" id="attachBtn" title="Attach files">📎</button>
       <button class="send-stop-btn send" id="sendStopBtn">Send</button>
     </div>
   </div>
@@ -1205,8 +1847,11 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     const bannerAgent = document.getElementById('bannerAgent');
     const bannerCwd = document.getElementById('bannerCwd');
     const inputArea = document.getElementById('inputArea');
+    const attachmentChips = document.getElementById('attachmentChips');
+    const attachBtn = document.getElementById('attachBtn');
     const resizeHandle = document.getElementById('resizeHandle');
     const slashPopup = document.getElementById('slashPopup');
+    const mentionPopup = document.getElementById('mentionPopup');
 
     // Picker elements
     const modePickerWrap = document.getElementById('modePickerWrap');
@@ -1218,6 +1863,10 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     const modelPickerLabel = document.getElementById('modelPickerLabel');
     const modelDropdown = document.getElementById('modelDropdown');
     const configOptionsContainer = document.getElementById('configOptionsContainer');
+    const sessionSwitcherWrap = document.getElementById('sessionSwitcherWrap');
+    const sessionSwitcherBtn = document.getElementById('sessionSwitcherBtn');
+    const sessionSwitcherLabel = document.getElementById('sessionSwitcherLabel');
+    const sessionSwitcherDropdown = document.getElementById('sessionSwitcherDropdown');
 
     let hasActiveSession = false;
     let isProcessing = false;
@@ -1258,8 +1907,18 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     let chatHistory = [];
     let sessionState = null;
 
+    // Several agents can be live at once but only one is shown. The shown
+    // session's transcript is always chatHistory; the others are parked
+    // here, keyed by sessionId, until the user switches back to them.
+    let shownSessionId = null;
+    let transcripts = {};
+
+    // Output of agent terminals by terminalId, kept (trimmed) so tool call
+    // cards that embed a terminal can show it, including after a reload.
+    let terminalOutputs = {};
+
     function saveState() {
-      vscode.setState({ chatHistory, sessionState, hasActiveSession });
+      vscode.setState({ chatHistory, sessionState, hasActiveSession, shownSessionId, transcripts, terminalOutputs });
     }
 
     function restoreState() {
@@ -1267,19 +1926,34 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       if (!saved) return;
 
       chatHistory = saved.chatHistory || [];
+      terminalOutputs = saved.terminalOutputs || {};
       sessionState = saved.sessionState || null;
       hasActiveSession = saved.hasActiveSession || false;
+      shownSessionId = saved.shownSessionId || null;
+      transcripts = saved.transcripts || {};
 
       if (hasActiveSession && sessionState) {
         showSessionConnectedFromState(sessionState);
       }
 
+      renderHistory();
+    }
+
+    /** Rebuild the message list from chatHistory. */
+    function renderHistory() {
+      toolCalls = {};
+      messagesEl.innerHTML = '';
+      if (emptyState) {
+        messagesEl.appendChild(emptyState);
+        emptyState.style.display = hasActiveSession ? 'none' : '';
+      }
+
       const assistantItems = [];
       for (let i = 0; i < chatHistory.length; i++) {
         const item = chatHistory[i];
         switch (item.kind) {
           case 'message':
-            addMessageDOM(item.role, item.text);
+            addMessageDOM(item.role, item.text, item.attachments);
             if (item.role === 'assistant') {
               assistantItems.push({ index: i, text: item.text });
             }
@@ -1288,29 +1962,59 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
             addThoughtDOM(item.text, item.durationSec || 0);
             break;
           case 'toolCall':
-            addToolCallDOM(item.toolCallId, item.title, item.status);
+            addToolCallDOM(item);
             break;
           case 'plan':
             addPlanDOM(item.plan);
             break;
+          case 'checkpoint':
+            addCheckpointDOM(item);
+            break;
         }
       }
+      refreshCheckpointRows();
 
       // Request markdown rendering for all restored assistant messages
       if (assistantItems.length > 0) {
-        vscode.postMessage({ type: 'renderMarkdown', items: assistantItems });
+        vscode.postMessage({ type: 'renderMarkdown', items: assistantItems, sessionId: shownSessionId });
+      }
+    }
+
+    /**
+     * Park the visible transcript and bring up the one for sessionId.
+     * An in-flight turn is committed first; any output it produces while
+     * hidden is replayed by the extension when the session is shown again.
+     */
+    function switchTranscript(sessionId) {
+      finalizeCurrentAssistantTurn();
+      if (shownSessionId) {
+        transcripts[shownSessionId] = chatHistory;
+      }
+      chatHistory = transcripts[sessionId] || [];
+      delete transcripts[sessionId];
+      shownSessionId = sessionId;
+      saveState();
+      renderHistory();
+    }
+
+    /** Forget parked transcripts of sessions that are no longer live. */
+    function pruneTranscripts(liveSessions) {
+      const liveIds = liveSessions.map(s => s.sessionId);
+      for (const id of Object.keys(transcripts)) {
+        if (!liveIds.includes(id)) delete transcripts[id];
       }
+      saveState();
     }
 
     // Start with input disabled
     if (inputArea) inputArea.classList.add('disabled');
+    let toolCalls = {};
     let currentAssistantEl = null;
     let currentAssistantText = '';
     let currentTurnEl = null;       // .turn container for current response
     let currentToolsListEl = null;  // .turn-tools-list inside current turn
     let currentToolsCountEl = null; // .turn-tools-summary counter
     let currentToolCount = 0;
-    let toolCalls = {};
 
     // --- Resize handle ---
     let inputAreaHeight = 140;
@@ -1367,10 +2071,37 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
           promptInput.placeholder = savedPlaceholder;
         }
       }
+      updateMentionPopup();
     });
 
     // Send on Enter (Shift+Enter for newline)
     promptInput.addEventListener('keydown', (e) => {
+      // Mention popup navigation
+      if (mentionPopup.classList.contains('open')) {
+        if (e.key === 'ArrowDown') {
+          e.preventDefault();
+          mentionSelectedIdx = Math.min(mentionSelectedIdx + 1, mentionItems.length - 1);
+          highlightMentionItem(mentionSelectedIdx);
+          return;
+        }
+        if (e.key === 'ArrowUp') {
+          e.preventDefault();
+          mentionSelectedIdx = Math.max(mentionSelectedIdx - 1, 0);
+          highlightMentionItem(mentionSelectedIdx);
+          return;
+        }
+        if (e.key === 'Tab' || (e.key === 'Enter' && !e.shiftKey)) {
+          e.preventDefault();
+          selectMention(mentionItems[mentionSelectedIdx]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          closeMentionPopup();
+          return;
+        }
+      }
+
       // Slash popup navigation
       if (slashPopup.classList.contains('open')) {
         if (e.key === 'ArrowDown') {
@@ -1402,24 +2133,357 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
         }
       }
 
-      if (e.key === 'Enter' && !e.shiftKey) {
-        e.preventDefault();
-        if (isProcessing) {
-          handleCancel();
-        } else {
-          handleSend();
+      if (e.key === 'Enter' && !e.shiftKey) {
+        e.preventDefault();
+        if (isProcessing) {
+          handleCancel();
+        } else {
+          handleSend();
+        }
+      }
+    });
+
+    function handleSend() {
+      const text = promptInput.value.trim();
+      if ((!text && pendingAttachments.length === 0) || isProcessing) return;
+
+      const attachments = pendingAttachments.map(a => {
+        switch (a.kind) {
+          case 'image': return { kind: 'image', name: a.name, mimeType: a.mimeType, data: a.data, thumbnail: a.thumbnail };
+          case 'audio': return { kind: 'audio', uri: a.uri, name: a.name, mimeType: a.mimeType, data: a.data };
+          default: return { kind: 'file', uri: a.uri, name: a.name };
+        }
+      });
+      // Only mentions whose token is still in the text are sent.
+      const mentions = pendingMentions.filter(m => text.includes('@' + m.label));
+      addMessage('user', text, attachments.map(withoutPayload));
+      promptInput.value = '';
+      pendingAttachments = [];
+      pendingMentions = [];
+      closeMentionPopup();
+      renderPendingAttachments();
+      vscode.postMessage({ type: 'sendPrompt', text, attachments, mentions });
+    }
+
+    // --- @-mentions ---
+    // Mentions picked for the next prompt (files, selection, problems,
+    // diff). The extension reads their content when the prompt is sent.
+    let pendingMentions = [];
+    let mentionItems = [];
+    let mentionSelectedIdx = -1;
+    let mentionRequestId = 0;
+    // Index of the '@' currently being completed, or -1.
+    let mentionQueryStart = -1;
+
+    function currentMentionQuery() {
+      const caret = promptInput.selectionStart;
+      const before = promptInput.value.slice(0, caret);
+      const m = /(^|\\s)@([^\\s@]*)$/.exec(before);
+      if (!m) return null;
+      return { start: caret - m[2].length - 1, query: m[2] };
+    }
+
+    function updateMentionPopup() {
+      const q = currentMentionQuery();
+      if (!q) {
+        closeMentionPopup();
+        return;
+      }
+      mentionQueryStart = q.start;
+      vscode.postMessage({ type: 'mentionQuery', query: q.query, requestId: ++mentionRequestId });
+    }
+
+    function closeMentionPopup() {
+      mentionPopup.classList.remove('open');
+      mentionItems = [];
+      mentionSelectedIdx = -1;
+      mentionQueryStart = -1;
+    }
+
+    function showMentionResults(requestId, items) {
+      if (requestId !== mentionRequestId || mentionQueryStart < 0) return;
+      mentionItems = items || [];
+      if (mentionItems.length === 0) {
+        mentionPopup.classList.remove('open');
+        return;
+      }
+      mentionPopup.innerHTML = '<div class="slash-popup-header">Mentions</div>';
+      mentionItems.forEach((m, i) => {
+        const item = document.createElement('div');
+        item.className = 'slash-popup-item';
+        item.innerHTML =
+          '<span class="cmd-name">@' + escapeHtml(m.label) + '</span>' +
+          '<span class="cmd-desc">' + escapeHtml(m.detail || '') + '</span>';
+        item.addEventListener('mousedown', (e) => {
+          // Keep focus (and the caret) in the textarea.
+          e.preventDefault();
+          selectMention(m);
+        });
+        item.addEventListener('mouseenter', () => {
+          mentionSelectedIdx = i;
+          highlightMentionItem(i);
+        });
+        mentionPopup.appendChild(item);
+      });
+      mentionPopup.classList.add('open');
+      mentionSelectedIdx = 0;
+      highlightMentionItem(0);
+    }
+
+    function highlightMentionItem(idx) {
+      const items = mentionPopup.querySelectorAll('.slash-popup-item');
+      items.forEach((el, i) => el.classList.toggle('active', i === idx));
+      if (items[idx]) items[idx].scrollIntoView({ block: 'nearest' });
+    }
+
+    /** Replace the '@query' being typed with the picked mention's token. */
+    function selectMention(mention) {
+      const start = mentionQueryStart;
+      closeMentionPopup();
+      if (!mention || start < 0) return;
+      const caret = promptInput.selectionStart;
+      const before = promptInput.value.slice(0, start);
+      const after = promptInput.value.slice(caret);
+      const token = '@' + mention.label + ' ';
+      promptInput.value = before + token + after;
+      const pos = before.length + token.length;
+      promptInput.setSelectionRange(pos, pos);
+      promptInput.focus();
+      addPendingMention(mention);
+    }
+
+    /** Append a mention pushed by the extension (Send Selection to Agent). */
+    function insertMention(mention) {
+      if (!mention || !mention.label) return;
+      const value = promptInput.value;
+      const sep = value && !/\\s$/.test(value) ? ' ' : '';
+      promptInput.value = value + sep + '@' + mention.label + ' ';
+      addPendingMention(mention);
+      promptInput.focus();
+      promptInput.setSelectionRange(promptInput.value.length, promptInput.value.length);
+    }
+
+    function addPendingMention(mention) {
+      const m = Object.assign({}, mention);
+      delete m.detail;
+      pendingMentions = pendingMentions.filter(p => p.label !== m.label);
+      pendingMentions.push(m);
+    }
+
+    // --- Attachments ---
+    // Queued for the next prompt. Files: { kind: 'file', uri, name, path };
+    // pasted / dropped images: { kind: 'image', id, name, mimeType, data, thumbnail };
+    // audio files: { kind: 'audio', uri, name, path, mimeType, data }.
+    // Once sent, only a thumbnail (images) and the name and MIME type are
+    // kept in the transcript, so saved state stays small.
+    let pendingAttachments = [];
+    let nextImageId = 1;
+    // Prompt capabilities of the shown session (from the 'state' message).
+    let promptCapabilities = {};
+    const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+    const THUMBNAIL_SIZE = 240;
+
+    /** The transcript copy of an attachment: everything but the payload. */
+    function withoutPayload(att) {
+      const kept = { kind: att.kind, name: att.name };
+      if (att.uri) kept.uri = att.uri;
+      if (att.mimeType) kept.mimeType = att.mimeType;
+      if (att.thumbnail) kept.thumbnail = att.thumbnail;
+      return kept;
+    }
+
+    /** Resolve to a small data URL of the image at src, or null. */
+    function makeThumbnail(src) {
+      return new Promise((resolve) => {
+        const img = new Image();
+        img.onload = () => {
+          const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight, 1));
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+          canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+          const context = canvas.getContext('2d');
+          if (!context) { resolve(null); return; }
+          context.drawImage(img, 0, 0, canvas.width, canvas.height);
+          resolve(canvas.toDataURL('image/webp', 0.8));
+        };
+        img.onerror = () => resolve(null);
+        img.src = src;
+      });
+    }
+
+    function attachmentKey(att) {
+      return att.kind === 'image' ? 'image:' + att.id : att.uri;
+    }
+
+    function addPendingAttachment(att) {
+      if (!att || !att.uri) return;
+      if (pendingAttachments.some(a => a.uri === att.uri)) return;
+      const name = att.name || att.uri;
+      const path = att.path || att.uri;
+      if (att.kind === 'audio') {
+        if (!promptCapabilities.audio) {
+          addMessageDOM('error', (sessionState && sessionState.agentName || 'This agent') +
+            ' does not accept audio (promptCapabilities.audio is not advertised).');
+          return;
+        }
+        pendingAttachments.push({ kind: 'audio', uri: att.uri, name, path, mimeType: att.mimeType, data: att.data });
+      } else {
+        pendingAttachments.push({ kind: 'file', uri: att.uri, name, path });
+      }
+      renderPendingAttachments();
+    }
+
+    /** Queue an image File (from paste or drop), refusing if unsupported. */
+    function addImageFile(file) {
+      if (!promptCapabilities.image) {
+        addMessageDOM('error', (sessionState && sessionState.agentName || 'This agent') +
+          ' does not accept images (promptCapabilities.image is not advertised).');
+        return;
+      }
+      if (file.size > MAX_IMAGE_BYTES) {
+        addMessageDOM('error', 'Image "' + (file.name || 'pasted image') + '" is larger than 5 MB and was not attached.');
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => {
+        const dataUrl = String(reader.result || '');
+        const comma = dataUrl.indexOf(',');
+        if (comma < 0) return;
+        const id = nextImageId++;
+        const att = {
+          kind: 'image',
+          id,
+          name: file.name || ('image-' + id + '.' + (file.type.split('/')[1] || 'png')),
+          mimeType: file.type || 'image/png',
+          data: dataUrl.slice(comma + 1),
+          thumbnail: null,
+        };
+        pendingAttachments.push(att);
+        renderPendingAttachments();
+        makeThumbnail(dataUrl).then((thumbnail) => { att.thumbnail = thumbnail; });
+      };
+      reader.readAsDataURL(file);
+    }
+
+    function renderPendingAttachments() {
+      attachmentChips.innerHTML = '';
+      attachmentChips.classList.toggle('hidden', pendingAttachments.length === 0);
+      for (const att of pendingAttachments) {
+        const chip = createAttachmentChip(att);
+        const remove = document.createElement('button');
+        remove.className = 'chip-remove';
+        remove.title = 'Remove';
+        remove.textContent = '×';
+        remove.addEventListener('click', () => {
+          const key = attachmentKey(att);
+          pendingAttachments = pendingAttachments.filter(a => attachmentKey(a) !== key);
+          renderPendingAttachments();
+        });
+        chip.appendChild(remove);
+        attachmentChips.appendChild(chip);
+      }
+    }
+
+    /** The image to show for an attachment: its bytes, else its thumbnail. */
+    function imageSrc(att) {
+      if (att.data) return 'data:' + att.mimeType + ';base64,' + att.data;
+      return att.thumbnail || null;
+    }
+
+    function createAttachmentChip(att) {
+      const chip = document.createElement('span');
+      chip.className = 'attachment-chip';
+      chip.title = att.path || att.uri || att.name;
+      if (att.kind === 'image' && imageSrc(att)) {
+        chip.innerHTML = '<img class="chip-thumb" alt=""><span class="chip-label"></span>';
+        chip.querySelector('.chip-thumb').src = imageSrc(att);
+      } else if (att.kind === 'image') {
+        chip.innerHTML = '<span class="chip-icon">🖼</span><span class="chip-label"></span>';
+      } else if (att.kind === 'audio') {
+        chip.innerHTML = '<span class="chip-icon">🎵</span><span class="chip-label"></span>';
+      } else {
+        chip.innerHTML = '<span class="chip-icon">📎</span><span class="chip-label"></span>';
+      }
+      chip.querySelector('.chip-label').textContent = att.name;
+      return chip;
+    }
+
+    /**
+     * Render attachments under a user message bubble: image thumbnails,
+     * audio players, then chips for files and for images and audio whose
+     * payload is no longer kept.
+     */
+    function renderMessageAttachments(el, attachments) {
+      for (const old of el.querySelectorAll('.message-images, .message-audio, .attachment-chips')) {
+        old.remove();
+      }
+      const images = attachments.filter(a => a.kind === 'image' && imageSrc(a));
+      const audio = attachments.filter(a => a.kind === 'audio' && a.data);
+      const files = attachments.filter(a => !images.includes(a) && !audio.includes(a));
+      if (images.length > 0) {
+        const row = document.createElement('div');
+        row.className = 'message-images';
+        for (const att of images) {
+          const img = document.createElement('img');
+          img.className = 'message-thumb';
+          img.alt = att.name || 'image';
+          img.title = att.name || '';
+          img.src = imageSrc(att);
+          row.appendChild(img);
         }
+        el.appendChild(row);
+      }
+      for (const att of audio) {
+        const row = document.createElement('div');
+        row.className = 'message-audio';
+        row.title = att.name || '';
+        const player = document.createElement('audio');
+        player.controls = true;
+        player.preload = 'metadata';
+        player.src = 'data:' + att.mimeType + ';base64,' + att.data;
+        row.appendChild(player);
+        el.appendChild(row);
+      }
+      if (files.length > 0) {
+        const row = document.createElement('div');
+        row.className = 'attachment-chips';
+        for (const att of files) {
+          row.appendChild(createAttachmentChip(att));
+        }
+        el.appendChild(row);
+      }
+    }
+
+    // Paste images straight from the clipboard (e.g. screenshots).
+    promptInput.addEventListener('paste', (e) => {
+      const items = e.clipboardData ? Array.from(e.clipboardData.items) : [];
+      const images = items.filter(item => item.kind === 'file' && item.type.startsWith('image/'));
+      if (images.length === 0) return;
+      e.preventDefault();
+      for (const item of images) {
+        const file = item.getAsFile();
+        if (file) addImageFile(file);
       }
     });
 
-    function handleSend() {
-      const text = promptInput.value.trim();
-      if (!text || isProcessing) return;
+    // Drop image files onto the composer (hold Shift while dragging in VS Code).
+    inputArea.addEventListener('dragover', (e) => {
+      if (e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files')) {
+        e.preventDefault();
+        e.dataTransfer.dropEffect = 'copy';
+      }
+    });
+    inputArea.addEventListener('drop', (e) => {
+      const files = e.dataTransfer ? Array.from(e.dataTransfer.files) : [];
+      const images = files.filter(f => f.type.startsWith('image/'));
+      if (images.length === 0) return;
+      e.preventDefault();
+      for (const file of images) addImageFile(file);
+    });
 
-      addMessage('user', text);
-      promptInput.value = '';
-      vscode.postMessage({ type: 'sendPrompt', text });
-    }
+    attachBtn.addEventListener('click', () => {
+      vscode.postMessage({ type: 'attachFiles' });
+    });
 
     function handleCancel() {
       vscode.postMessage({ type: 'cancelTurn' });
@@ -1469,8 +2533,8 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
 
     function handleLoadSessionStart() {
       isLoadingSession = true;
-      // Reset all chat state; behaves like clearChat but keeps the session
-      // banner / input area structure intact.
+      // Reset all chat state but keep the session banner / input area
+      // structure intact.
       chatHistory = [];
       saveState();
       currentAssistantEl = null;
@@ -1511,7 +2575,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
         }
       }
       if (items.length > 0) {
-        vscode.postMessage({ type: 'renderMarkdown', items });
+        vscode.postMessage({ type: 'renderMarkdown', items, sessionId: shownSessionId });
       }
       scrollToBottom();
       if (!ok) {
@@ -1658,6 +2722,46 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       }
     }
 
+    // --- Live session switcher (banner) ---
+
+    function renderSessionSwitcher(sessions, activeId) {
+      sessionSwitcherDropdown.innerHTML = '';
+      if (!Array.isArray(sessions) || sessions.length < 2) {
+        sessionSwitcherWrap.classList.add('hidden');
+        return;
+      }
+      sessionSwitcherWrap.classList.remove('hidden');
+      const perAgent = {};
+      for (const s of sessions) {
+        perAgent[s.agentName] = (perAgent[s.agentName] || 0) + 1;
+      }
+      const agentCount = Object.keys(perAgent).length;
+      sessionSwitcherLabel.textContent = agentCount === sessions.length
+        ? sessions.length + ' agents'
+        : sessions.length + ' sessions';
+      for (const s of sessions) {
+        const selected = s.sessionId === activeId;
+        const item = document.createElement('div');
+        item.className = 'picker-dropdown-item' + (selected ? ' selected' : '');
+        item.dataset.desc = s.title || '';
+        item.innerHTML =
+          '<span class="check">' + (selected ? '✓' : '') + '</span>' +
+          '<span class="item-label"></span>';
+        // Disambiguate an agent's sessions by title when it hosts several.
+        item.querySelector('.item-label').textContent = perAgent[s.agentName] > 1
+          ? s.agentName + ' · ' + (s.title || 'New conversation')
+          : s.agentName;
+        item.addEventListener('click', (e) => {
+          e.stopPropagation();
+          closePickers();
+          if (!selected) {
+            vscode.postMessage({ type: 'switchSession', sessionId: s.sessionId });
+          }
+        });
+        sessionSwitcherDropdown.appendChild(item);
+      }
+    }
+
     // --- ACP Session Config Options ---
 
     function iconForCategory(cat) {
@@ -1842,9 +2946,17 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       if (!wasOpen) modelDropdown.classList.add('open');
     });
 
+    sessionSwitcherBtn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      const wasOpen = sessionSwitcherDropdown.classList.contains('open');
+      closePickers();
+      if (!wasOpen) sessionSwitcherDropdown.classList.add('open');
+    });
+
     function closePickers() {
       modeDropdown.classList.remove('open');
       modelDropdown.classList.remove('open');
+      sessionSwitcherDropdown.classList.remove('open');
       // Close any dynamic config-option dropdowns
       const open = configOptionsContainer.querySelectorAll('.picker-dropdown.open');
       open.forEach(el => el.classList.remove('open'));
@@ -1926,6 +3038,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     }
     attachScrollHide(modeDropdown);
     attachScrollHide(modelDropdown);
+    attachScrollHide(sessionSwitcherDropdown);
     // Dynamic configOption dropdowns: rely on the same handler via event-delegation
     // (they exist inside #configOptionsContainer); attach once per dropdown when created.
     if (configOptionsContainer) {
@@ -1939,17 +3052,22 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
     document.addEventListener('click', () => closePickers());
 
     // --- Messages ---
-    function addMessage(role, text) {
-      chatHistory.push({ kind: 'message', role, text });
+    function addMessage(role, text, attachments) {
+      const item = { kind: 'message', role, text };
+      if (attachments && attachments.length > 0) item.attachments = attachments;
+      chatHistory.push(item);
       saveState();
-      return addMessageDOM(role, text);
+      return addMessageDOM(role, text, attachments);
     }
 
-    function addMessageDOM(role, text) {
+    function addMessageDOM(role, text, attachments) {
       hideEmpty();
       const el = document.createElement('div');
       el.className = 'message ' + role;
       el.textContent = text;
+      if (attachments && attachments.length > 0) {
+        renderMessageAttachments(el, attachments);
+      }
       messagesEl.appendChild(el);
       scrollToBottom();
       return el;
@@ -1965,7 +3083,8 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
 
     function getStatusIcon(status) {
       switch (status) {
-        case 'running': return '⟳';
+        case 'running':
+        case 'in_progress': return '⟳';
         case 'completed': return '✓';
         case 'failed': return '✗';
         default: return '…';
@@ -2008,13 +3127,29 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       }
     }
 
-    function addToolCall(toolCallId, title, status) {
-      chatHistory.push({ kind: 'toolCall', toolCallId, title, status });
+    function addToolCall(tc) {
+      const item = {
+        kind: 'toolCall',
+        toolCallId: tc.toolCallId || 'unknown',
+        title: tc.title || 'Tool Call',
+        status: tc.status || 'pending',
+      };
+      mergeToolCallDetails(item, tc);
+      chatHistory.push(item);
       saveState();
-      addToolCallInline(toolCallId, title, status);
+      addToolCallInline(item);
+    }
+
+    /** Copy the detail fields a tool_call / tool_call_update carries. */
+    function mergeToolCallDetails(item, update) {
+      // Per ACP, a content array in an update replaces the previous one.
+      if (Array.isArray(update.content)) item.content = update.content;
+      if (update.rawInput !== undefined) item.rawInput = update.rawInput;
+      if (update.rawOutput !== undefined) item.rawOutput = update.rawOutput;
+      if (Array.isArray(update.locations)) item.locations = update.locations;
     }
 
-    function addToolCallInline(toolCallId, title, status) {
+    function addToolCallInline(item) {
       hideEmpty();
       ensureTurnTools();
       currentToolCount++;
@@ -2024,47 +3159,314 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       }
 
       const el = document.createElement('div');
-      el.className = 'tool-call-inline';
-      el.id = 'tc-' + toolCallId;
-      el.innerHTML =
-        '<span class="tc-icon ' + status + '">' + getStatusIcon(status) + '</span>' +
-        '<span class="tc-title">' + escapeHtml(title || 'Tool Call') + '</span>';
+      el.className = 'tool-call-card';
+      el.id = 'tc-' + item.toolCallId;
+      const header = document.createElement('div');
+      header.className = 'tool-call-inline';
+      header.innerHTML =
+        '<span class="tc-chevron"></span>' +
+        '<span class="tc-icon ' + item.status + '">' + getStatusIcon(item.status) + '</span>' +
+        '<span class="tc-title">' + escapeHtml(item.title || 'Tool Call') + '</span>';
+      el.appendChild(header);
+      attachToolCallBody(el, header, item);
       currentToolsListEl.appendChild(el);
-      toolCalls[toolCallId] = el;
+      toolCalls[item.toolCallId] = el;
       scrollToBottom();
     }
 
     // Fallback DOM builder for history restore (standalone card)
-    function addToolCallDOM(toolCallId, title, status) {
+    function addToolCallDOM(item) {
       hideEmpty();
       const el = document.createElement('div');
       el.className = 'tool-call';
-      el.id = 'tc-' + toolCallId;
-      el.innerHTML = '<span class="title">' + escapeHtml(title || 'Tool Call') + '</span>'
-        + '<span class="status-badge ' + status + '">' + status + '</span>';
+      el.id = 'tc-' + item.toolCallId;
+      el.innerHTML = '<span class="title">' + escapeHtml(item.title || 'Tool Call') + '</span>'
+        + '<span class="status-badge ' + item.status + '">' + item.status + '</span>';
+      attachToolCallBody(el, el.querySelector('.title'), item);
       messagesEl.appendChild(el);
-      toolCalls[toolCallId] = el;
+      toolCalls[item.toolCallId] = el;
       scrollToBottom();
     }
 
-    function updateToolCall(toolCallId, status, title) {
+    /** Add the collapsible details section; clicking toggleEl expands it. */
+    function attachToolCallBody(el, toggleEl, item) {
+      const body = document.createElement('div');
+      body.className = 'tc-body';
+      el.appendChild(body);
+      toggleEl.addEventListener('click', () => {
+        if (el.classList.contains('has-details')) {
+          el.classList.toggle('expanded');
+          el.dataset.userToggled = '1';
+        }
+      });
+      renderToolCallBody(el, item);
+    }
+
+    function renderToolCallBody(el, item) {
+      const body = el.querySelector('.tc-body');
+      if (!body) return;
+      body.innerHTML = '';
+      if (item.locations && item.locations.length > 0) {
+        body.appendChild(renderLocations(item.locations));
+      }
+      let hasTerminal = false;
+      for (const content of item.content || []) {
+        const node = renderToolCallContent(content);
+        if (node) body.appendChild(node);
+        if (content.type === 'terminal') hasTerminal = true;
+      }
+      if (item.rawInput !== undefined) body.appendChild(renderRawJson('Input', item.rawInput));
+      if (item.rawOutput !== undefined) body.appendChild(renderRawJson('Output', item.rawOutput));
+      el.classList.toggle('has-details', body.childNodes.length > 0);
+      // Live terminal output is shown without a click, unless the user
+      // already collapsed or expanded the card themselves.
+      if (hasTerminal && !el.dataset.userToggled) el.classList.add('expanded');
+    }
+
+    /** Links that open the files (and lines) a tool call touches. */
+    function renderLocations(locations) {
+      const wrap = document.createElement('div');
+      wrap.className = 'tc-locations';
+      for (const location of locations) {
+        if (!location || !location.path) continue;
+        const link = document.createElement('a');
+        link.href = '#';
+        const name = location.path.split(/[\\\\/]/).pop();
+        link.textContent = location.line ? name + ':' + location.line : name;
+        link.title = location.path;
+        link.addEventListener('click', (e) => {
+          e.preventDefault();
+          vscode.postMessage({ type: 'openLocation', path: location.path, line: location.line || null });
+        });
+        wrap.appendChild(link);
+      }
+      return wrap;
+    }
+
+    function renderToolCallContent(content) {
+      switch (content.type) {
+        case 'diff':
+          return renderDiff(content.path, content.oldText, content.newText, content.hunks || []);
+        case 'terminal': {
+          const wrap = document.createElement('div');
+          wrap.className = 'tc-terminal';
+          wrap.dataset.terminalId = content.terminalId;
+          wrap.innerHTML = '<pre></pre><div class="tc-terminal-exit"></div>';
+          fillTerminalView(wrap);
+          return wrap;
+        }
+        case 'content':
+          return renderContentBlock(content.content);
+        default:
+          return null;
+      }
+    }
+
+    function renderContentBlock(block) {
+      if (!block) return null;
+      if (block.type === 'text') {
+        const pre = document.createElement('pre');
+        pre.textContent = block.text || '';
+        return pre;
+      }
+      if (block.type === 'image' && block.data) {
+        const img = document.createElement('img');
+        img.src = 'data:' + (block.mimeType || 'image/png') + ';base64,' + block.data;
+        return img;
+      }
+      if (block.type === 'resource' && block.resource && typeof block.resource.text === 'string') {
+        const pre = document.createElement('pre');
+        pre.textContent = block.resource.text;
+        return pre;
+      }
+      const pre = document.createElement('pre');
+      pre.textContent = JSON.stringify(block, null, 2);
+      return pre;
+    }
+
+    function renderRawJson(label, value) {
+      const details = document.createElement('details');
+      details.className = 'tc-raw';
+      const summary = document.createElement('summary');
+      summary.textContent = label;
+      const pre = document.createElement('pre');
+      pre.textContent = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+      details.appendChild(summary);
+      details.appendChild(pre);
+      return details;
+    }
+
+    function renderDiff(path, oldText, newText, hunks) {
+      const ops = diffOps(oldText || '', hunks);
+      let added = 0;
+      let removed = 0;
+      const pre = document.createElement('pre');
+      for (const op of ops) {
+        const line = document.createElement('span');
+        line.className = 'diff-line ' + op.type;
+        if (op.type === 'add') {
+          added++;
+          line.textContent = '+ ' + op.text;
+        } else if (op.type === 'del') {
+          removed++;
+          line.textContent = '- ' + op.text;
+        } else if (op.type === 'skip') {
+          line.textContent = '  …';
+        } else {
+          line.textContent = '  ' + op.text;
+        }
+        pre.appendChild(line);
+      }
+
+      const wrap = document.createElement('div');
+      wrap.className = 'tc-diff';
+      const header = document.createElement('div');
+      header.className = 'tc-diff-header';
+      header.innerHTML =
+        '<span>' + escapeHtml(path || '') + (oldText === null || oldText === undefined ? ' (new file)' : '') + '</span>' +
+        '<span class="added">+' + added + '</span>' +
+        '<span class="removed">-' + removed + '</span>';
+      if (path) {
+        const open = document.createElement('button');
+        open.className = 'tc-diff-open';
+        open.textContent = 'View Diff';
+        open.title = 'Open in the diff editor';
+        open.addEventListener('click', () => {
+          vscode.postMessage({ type: 'viewDiff', path, oldText: oldText === undefined ? null : oldText, newText: newText || '' });
+        });
+        header.appendChild(open);
+      }
+      wrap.appendChild(header);
+      wrap.appendChild(pre);
+      return wrap;
+    }
+
+    /**
+     * Lines to show for a diff: the hunks computed by the extension
+     * (LineDiff) as del/add ops, with 3 lines of context around them;
+     * longer unchanged runs become a single 'skip'.
+     */
+    function diffOps(oldText, hunks) {
+      const a = oldText === '' ? [] : oldText.split('\\n');
+      const ops = [];
+      let shown = 0;
+      hunks.forEach((hunk, k) => {
+        const from = Math.max(shown, hunk.oldStart - 3);
+        if (from > shown) ops.push({ type: 'skip', text: '' });
+        for (let i = from; i < hunk.oldStart; i++) ops.push({ type: 'ctx', text: withoutCr(a[i]) });
+        for (const text of hunk.oldLines) ops.push({ type: 'del', text: withoutCr(text) });
+        for (const text of hunk.newLines) ops.push({ type: 'add', text: withoutCr(text) });
+        const end = hunk.oldStart + hunk.oldLines.length;
+        const stop = Math.min(k + 1 < hunks.length ? hunks[k + 1].oldStart : a.length, end + 3);
+        for (let i = end; i < stop; i++) ops.push({ type: 'ctx', text: withoutCr(a[i]) });
+        shown = Math.max(shown, stop);
+      });
+      if (shown < a.length) ops.push({ type: 'skip', text: '' });
+      return ops;
+    }
+
+    function withoutCr(text) {
+      return text.charCodeAt(text.length - 1) === 13 ? text.slice(0, -1) : text;
+    }
+
+    // --- Terminal output for tool call cards ---
+    const MAX_TERMINAL_CHARS = 64 * 1024;
+    const MAX_TERMINALS_KEPT = 30;
+    let terminalSaveTimer = null;
+
+    function terminalEntry(terminalId) {
+      let entry = terminalOutputs[terminalId];
+      if (!entry) {
+        entry = terminalOutputs[terminalId] = { text: '' };
+        const ids = Object.keys(terminalOutputs);
+        if (ids.length > MAX_TERMINALS_KEPT) delete terminalOutputs[ids[0]];
+      }
+      return entry;
+    }
+
+    function appendTerminalOutput(terminalId, data) {
+      const entry = terminalEntry(terminalId);
+      entry.text += data;
+      if (entry.text.length > MAX_TERMINAL_CHARS) {
+        entry.text = entry.text.slice(-MAX_TERMINAL_CHARS);
+      }
+      refreshTerminalViews(terminalId);
+      // Output can arrive in many small chunks; persist at most twice a second.
+      if (!terminalSaveTimer) {
+        terminalSaveTimer = setTimeout(() => {
+          terminalSaveTimer = null;
+          saveState();
+        }, 500);
+      }
+    }
+
+    function setTerminalSnapshot(terminalId, text, exitStatus) {
+      const entry = terminalEntry(terminalId);
+      entry.text = text.slice(-MAX_TERMINAL_CHARS);
+      if (exitStatus) entry.exitStatus = exitStatus;
+      refreshTerminalViews(terminalId);
+      saveState();
+    }
+
+    function setTerminalExit(terminalId, exitStatus) {
+      const entry = terminalOutputs[terminalId] || (terminalOutputs[terminalId] = { text: '' });
+      entry.exitStatus = exitStatus || {};
+      refreshTerminalViews(terminalId);
+      saveState();
+    }
+
+    function refreshTerminalViews(terminalId) {
+      document.querySelectorAll('.tc-terminal').forEach((wrap) => {
+        if (wrap.dataset.terminalId === terminalId) fillTerminalView(wrap);
+      });
+    }
+
+    function fillTerminalView(wrap) {
+      const entry = terminalOutputs[wrap.dataset.terminalId];
+      const pre = wrap.querySelector('pre');
+      const exitEl = wrap.querySelector('.tc-terminal-exit');
+      pre.textContent = entry && entry.text ? entry.text : '(no output yet)';
+      pre.scrollTop = pre.scrollHeight;
+      const exit = entry && entry.exitStatus;
+      if (!exit) {
+        exitEl.textContent = '';
+      } else if (exit.signal) {
+        exitEl.textContent = 'Terminated by ' + exit.signal;
+      } else {
+        exitEl.textContent = 'Exited with code ' + exit.exitCode;
+      }
+    }
+
+    function updateToolCall(update) {
+      const toolCallId = update.toolCallId || 'unknown';
+      let item = null;
       for (let i = chatHistory.length - 1; i >= 0; i--) {
         if (chatHistory[i].kind === 'toolCall' && chatHistory[i].toolCallId === toolCallId) {
-          chatHistory[i].status = status;
-          if (title) chatHistory[i].title = title;
+          item = chatHistory[i];
           break;
         }
       }
-      saveState();
+      // Fields left out of an update are unchanged.
+      if (item) {
+        if (update.status) item.status = update.status;
+        if (update.title) item.title = update.title;
+        mergeToolCallDetails(item, update);
+        saveState();
+      }
 
       const el = toolCalls[toolCallId] || document.getElementById('tc-' + toolCallId);
       if (!el) return;
+      const status = item ? item.status : update.status;
+      const title = update.title;
+      if (item) renderToolCallBody(el, item);
 
       // Inline style (turn-based)
       const iconEl = el.querySelector('.tc-icon');
       if (iconEl) {
-        iconEl.className = 'tc-icon ' + status;
-        iconEl.textContent = getStatusIcon(status);
+        if (status) {
+          iconEl.className = 'tc-icon ' + status;
+          iconEl.textContent = getStatusIcon(status);
+        }
         if (title) {
           const titleEl = el.querySelector('.tc-title');
           if (titleEl) titleEl.textContent = title;
@@ -2073,7 +3475,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       }
       // Legacy card style fallback
       const badge = el.querySelector('.status-badge');
-      if (badge) {
+      if (badge && status) {
         badge.className = 'status-badge ' + status;
         badge.textContent = status;
       }
@@ -2083,6 +3485,118 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       }
     }
 
+    // --- Turn checkpoints ---
+    function addCheckpoint(turn, files) {
+      const item = { kind: 'checkpoint', turn, files: files || [], reverted: false };
+      chatHistory.push(item);
+      saveState();
+      addCheckpointDOM(item);
+      refreshCheckpointRows();
+    }
+
+    /**
+     * "Files changed this turn" row: click the label to list the files,
+     * each opening on click with a Diff against its state before the turn.
+     */
+    function addCheckpointDOM(item) {
+      hideEmpty();
+      const files = item.files;
+      const el = document.createElement('div');
+      el.className = 'turn-checkpoint';
+      el.dataset.turn = String(item.turn);
+
+      const header = document.createElement('div');
+      header.className = 'cp-header';
+      const label = document.createElement('span');
+      label.className = 'cp-label';
+      label.textContent = '▸ ✎ Files changed this turn (' + files.length + ')';
+      label.title = 'Show the files';
+      label.addEventListener('click', () => {
+        const expanded = el.classList.toggle('expanded');
+        label.textContent = (expanded ? '▾' : '▸') + ' ✎ Files changed this turn (' + files.length + ')';
+        label.title = expanded ? 'Hide the files' : 'Show the files';
+      });
+      const button = document.createElement('button');
+      button.className = 'cp-revert';
+      button.addEventListener('click', () => {
+        vscode.postMessage({ type: 'revertTurn', turn: item.turn });
+      });
+      header.appendChild(label);
+      header.appendChild(button);
+      el.appendChild(header);
+
+      const list = document.createElement('ul');
+      list.className = 'cp-files';
+      for (const file of files) {
+        const li = document.createElement('li');
+        const name = document.createElement('button');
+        name.className = 'cp-file';
+        name.textContent = file.path;
+        name.title = 'Open ' + file.path;
+        name.addEventListener('click', () => {
+          vscode.postMessage({ type: 'openLocation', path: file.uri });
+        });
+        li.appendChild(name);
+        if (file.created) {
+          const created = document.createElement('span');
+          created.className = 'cp-created';
+          created.textContent = 'new';
+          li.appendChild(created);
+        }
+        const diff = document.createElement('button');
+        diff.className = 'cp-diff';
+        diff.textContent = 'Diff';
+        diff.title = 'Compare with the file before this turn';
+        diff.addEventListener('click', () => {
+          vscode.postMessage({ type: 'turnFileDiff', turn: item.turn, uri: file.uri });
+        });
+        li.appendChild(diff);
+        list.appendChild(li);
+      }
+      el.appendChild(list);
+      messagesEl.appendChild(el);
+      scrollToBottom();
+    }
+
+    /**
+     * Label the revert buttons: the newest live checkpoint reverts "this
+     * turn", older ones revert everything from their turn on.
+     */
+    function refreshCheckpointRows() {
+      const reverted = {};
+      let latest = 0;
+      for (const item of chatHistory) {
+        if (item.kind !== 'checkpoint') continue;
+        reverted[item.turn] = item.reverted;
+        if (!item.reverted) latest = Math.max(latest, item.turn);
+      }
+      messagesEl.querySelectorAll('.turn-checkpoint').forEach((el) => {
+        const turn = parseInt(el.dataset.turn || '0', 10);
+        const button = el.querySelector('.cp-revert');
+        if (reverted[turn]) {
+          button.textContent = 'Reverted';
+          button.disabled = true;
+          button.title = '';
+        } else if (turn === latest) {
+          button.textContent = 'Revert this turn';
+          button.disabled = false;
+          button.title = 'Restore the files this turn changed';
+        } else {
+          button.textContent = 'Revert to before turn ' + turn;
+          button.disabled = false;
+          button.title = 'Undo the file changes of this turn and every later one';
+        }
+      });
+    }
+
+    function markTurnsReverted(fromTurn) {
+      for (const item of chatHistory) {
+        if (item.kind === 'checkpoint' && item.turn >= fromTurn) item.reverted = true;
+      }
+      saveState();
+      refreshCheckpointRows();
+    }
+
     function addPlan(plan) {
       chatHistory.push({ kind: 'plan', plan: plan });
       saveState();
@@ -2194,6 +3708,7 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
         if (session.modes) updateModePicker(session.modes);
         if (session.models) updateModelPicker(session.models);
       }
+      promptCapabilities = session.promptCapabilities || {};
       // Restore available commands
       if (session.availableCommands) {
         availableCommands = session.availableCommands;
@@ -2230,10 +3745,16 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       switch (msg.type) {
         case 'state':
           if (msg.session) {
+            if (msg.session.sessionId !== shownSessionId) {
+              switchTranscript(msg.session.sessionId);
+            }
             showSessionConnected(msg.session);
+            setProcessing(!!msg.turnInProgress);
           } else {
             showNoSession();
           }
+          pruneTranscripts(msg.liveSessions || []);
+          renderSessionSwitcher(msg.liveSessions || [], msg.activeSessionId);
           break;
 
         case 'promptStart':
@@ -2269,7 +3790,8 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
             if (currentAssistantEl) {
               vscode.postMessage({
                 type: 'renderMarkdown',
-                items: [{ index: chatHistory.length - 1, text: currentAssistantText }]
+                items: [{ index: chatHistory.length - 1, text: currentAssistantText }],
+                sessionId: shownSessionId,
               });
             }
           }
@@ -2295,43 +3817,38 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
           thoughtEndTime = null;
           break;
 
-        case 'clearChat':
-          chatHistory = [];
-          sessionState = null;
-          saveState();
-          currentAssistantEl = null;
-          currentAssistantText = '';
-          toolCalls = {};
-          currentTurnEl = null;
-          currentToolsListEl = null;
-          currentToolsCountEl = null;
-          currentToolCount = 0;
-          currentThoughtEl = null;
-          currentThoughtTextEl = null;
-          currentThoughtText = '';
-          thoughtStartTime = null;
-          thoughtEndTime = null;
-          availableCommands = [];
-          slashPopup.classList.remove('open');
-          messagesEl.innerHTML = '';
-          messagesEl.appendChild(emptyState);
-          if (emptyState) emptyState.style.display = '';
-          if (sessionBanner) sessionBanner.classList.remove('visible');
-          if (inputArea) inputArea.classList.add('disabled');
-          modePickerWrap.classList.add('hidden');
-          modelPickerWrap.classList.add('hidden');
-          setConfigOptionsState([]);
-          setProcessing(false);
-          break;
-
         case 'error':
           addMessage('error', msg.message || 'An error occurred');
           break;
 
+        case 'warning':
+          addMessage('warning', msg.message || '');
+          break;
+
         case 'sessionUpdate':
           handleUpdate(msg.update);
           break;
 
+        case 'turnCheckpoint':
+          addCheckpoint(msg.turn, msg.files);
+          break;
+
+        case 'turnsReverted':
+          markTurnsReverted(msg.fromTurn);
+          break;
+
+        case 'terminalOutput':
+          appendTerminalOutput(msg.terminalId, msg.data);
+          break;
+
+        case 'terminalExit':
+          setTerminalExit(msg.terminalId, msg.exitStatus);
+          break;
+
+        case 'terminalSnapshot':
+          setTerminalSnapshot(msg.terminalId, msg.text || '', msg.exitStatus);
+          break;
+
         case 'modesUpdate':
           updateModePicker(msg.modes);
           break;
@@ -2352,12 +3869,26 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
           handleLoadSessionEnd(!!msg.ok);
           break;
 
+        case 'file-attached':
+          addPendingAttachment(msg);
+          break;
+
+        case 'mentionResults':
+          showMentionResults(msg.requestId, msg.items);
+          break;
+
+        case 'mention-added':
+          insertMention(msg.mention);
+          break;
+
         case 'sessionInfoUpdate':
           handleSessionInfoUpdate(msg.title);
           break;
 
         case 'markdownRendered': {
-          // Extension sent back rendered HTML for messages
+          // Extension sent back rendered HTML for messages. Ignore replies
+          // for a transcript that has since been switched away from.
+          if ((msg.sessionId || null) !== shownSessionId) break;
           const rendered = msg.items || [];
           for (const item of rendered) {
             // Find the DOM element for this history item
@@ -2385,6 +3916,43 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
       }
     });
 
+    /**
+     * Add text and/or an attachment to the user message being replayed,
+     * coalescing consecutive user chunks into one message.
+     */
+    function appendUserChunk(text, attachment) {
+      finalizeCurrentAssistantTurn();
+      const last = chatHistory[chatHistory.length - 1];
+      if (!last || last.kind !== 'message' || last.role !== 'user') {
+        addMessage('user', text, attachment ? [attachment] : undefined);
+        return;
+      }
+      last.text += text;
+      if (attachment) {
+        last.attachments = (last.attachments || []).concat(attachment);
+      }
+      saveState();
+      const allUser = messagesEl.querySelectorAll('.message.user');
+      const el = allUser[allUser.length - 1];
+      if (el) {
+        el.textContent = last.text;
+        if (last.attachments) renderMessageAttachments(el, last.attachments);
+      }
+    }
+
+    /** Give an attachment of the last user message a thumbnail once made. */
+    function addThumbnailLater(attachment, src) {
+      const item = chatHistory[chatHistory.length - 1];
+      const allUser = messagesEl.querySelectorAll('.message.user');
+      const el = allUser[allUser.length - 1];
+      makeThumbnail(src).then((thumbnail) => {
+        if (!thumbnail) return;
+        attachment.thumbnail = thumbnail;
+        saveState();
+        if (el && el.isConnected && item && item.attachments) renderMessageAttachments(el, item.attachments);
+      });
+    }
+
     function handleUpdate(update) {
       if (!update) return;
       const type = update.sessionUpdate;
@@ -2422,23 +3990,29 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
         }
 
         case 'user_message_chunk': {
-          // Only the session/load replay path emits this; live prompts
-          // never echo the user's message. Use it to break apart historical
-          // turns: finalize any pending assistant turn first, then append
-          // the historical user message.
+          // Emitted by the session/load replay path, and echoed by the
+          // extension when the prompt was sent from another chat view of
+          // this session. Either way, finalize any pending assistant turn
+          // first, then append the user message.
           const content = update.content;
-          if (content && content.type === 'text' && typeof content.text === 'string') {
-            finalizeCurrentAssistantTurn();
-            // Coalesce consecutive user chunks into one message.
-            const last = chatHistory[chatHistory.length - 1];
-            if (last && last.kind === 'message' && last.role === 'user') {
-              last.text += content.text;
-              const allUser = messagesEl.querySelectorAll('.message.user');
-              const el = allUser[allUser.length - 1];
-              if (el) el.textContent = last.text;
-            } else {
-              addMessage('user', content.text);
+          if (!content) break;
+          if (content.type === 'text' && typeof content.text === 'string') {
+            appendUserChunk(content.text, null);
+          } else if (content.type === 'resource_link' && content.uri) {
+            appendUserChunk('', { kind: 'file', uri: content.uri, name: content.name || content.uri });
+          } else if (content.type === 'resource' && content.resource && content.resource.uri) {
+            const uri = content.resource.uri;
+            appendUserChunk('', { kind: 'file', uri, name: uri.split('/').pop() || uri });
+          } else if (content.type === 'image') {
+            // Only a thumbnail is kept; made here from replayed bytes.
+            const attachment = { kind: 'image', name: content.name || 'image', mimeType: content.mimeType || 'image/png' };
+            if (content.thumbnail) attachment.thumbnail = content.thumbnail;
+            appendUserChunk('', attachment);
+            if (!attachment.thumbnail && content.data) {
+              addThumbnailLater(attachment, 'data:' + attachment.mimeType + ';base64,' + content.data);
             }
+          } else if (content.type === 'audio') {
+            appendUserChunk('', { kind: 'audio', name: content.name || 'audio', mimeType: content.mimeType || 'audio/wav' });
           }
           break;
         }
@@ -2473,21 +4047,12 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
         }
 
         case 'tool_call': {
-          const tc = update;
-          addToolCall(
-            tc.toolCallId || 'unknown',
-            tc.title || 'Tool Call',
-            tc.status || 'pending',
-          );
+          addToolCall(update);
           break;
         }
 
         case 'tool_call_update': {
-          updateToolCall(
-            update.toolCallId || 'unknown',
-            update.status || 'completed',
-            update.title,
-          );
+          updateToolCall(update);
           break;
         }
 
@@ -2531,24 +4096,180 @@ export class ChatWebviewProvider implements vscode.WebviewViewProvider {
   }
 
   /**
-   * Attach a file URI — notify the webview to include it in the next prompt.
+   * Attach files to the next prompt of the focused chat: the active editor
+   * panel if one has focus, otherwise the sidebar.
    */
-  attachFile(uri: vscode.Uri): void {
-    if (this.view) {
-      this.view.webview.postMessage({
-        type: 'file-attached',
-        path: uri.fsPath,
-        name: uri.fsPath.split(/[\\/]/).pop() || uri.fsPath,
-      });
-      this.view.show?.(true);
+  attachFiles(uris: vscode.Uri[]): void {
+    const webview = this.composerWebview();
+    if (webview) {
+      void this.postAttachments(webview, uris);
+      if (webview === this.view?.webview) {
+        this.view.show?.(true);
+      }
+    }
+  }
+
+  /**
+   * Insert an `@`-mention (e.g. the editor selection) into the focused
+   * chat's composer, opening the sidebar chat if necessary.
+   */
+  addMention(mention: PromptMention): void {
+    const message = { type: 'mention-added', mention };
+    const webview = this.composerWebview();
+    if (!webview) {
+      this.pendingComposerMessages.push(message);
+      vscode.commands.executeCommand('acp-chat.focus');
+      return;
+    }
+    webview.postMessage(message);
+    if (webview === this.view?.webview) {
+      this.view.show?.(false);
+    }
+  }
+
+  /**
+   * The webview composer actions go to: the focused editor panel if there
+   * is one, otherwise the sidebar (undefined until it has been resolved).
+   */
+  private composerWebview(): vscode.Webview | undefined {
+    const panel = [...this.panels.values()].find(p => p.panel.active)?.panel;
+    return panel?.webview ?? this.view?.webview;
+  }
+
+  /** Let the user pick files to attach from a chat webview's paperclip. */
+  private async pickAttachments(webview: vscode.Webview): Promise<void> {
+    const uris = await vscode.window.showOpenDialog({
+      canSelectMany: true,
+      openLabel: 'Attach',
+      title: 'Attach Files to Chat',
+      defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+    });
+    if (uris && uris.length > 0) {
+      await this.postAttachments(webview, uris);
+    }
+  }
+
+  /**
+   * Hand picked files to a chat webview. Audio files (wav / mp3) are read
+   * here and sent as `audio` blocks; everything else is attached by URI.
+   */
+  private async postAttachments(webview: vscode.Webview, uris: vscode.Uri[]): Promise<void> {
+    for (const uri of uris) {
+      const name = uri.path.split('/').pop() || uri.fsPath;
+      const mimeType = audioMimeType(uri);
+      if (!mimeType) {
+        webview.postMessage({ type: 'file-attached', kind: 'file', uri: uri.toString(), path: uri.fsPath, name });
+        continue;
+      }
+      try {
+        const { size } = await vscode.workspace.fs.stat(uri);
+        if (size > MAX_AUDIO_BYTES) {
+          vscode.window.showWarningMessage(`"${name}" is larger than 10 MB and was not attached.`);
+          continue;
+        }
+        const bytes = await vscode.workspace.fs.readFile(uri);
+        webview.postMessage({
+          type: 'file-attached',
+          kind: 'audio',
+          uri: uri.toString(),
+          path: uri.fsPath,
+          name,
+          mimeType,
+          data: Buffer.from(bytes).toString('base64'),
+        });
+      } catch (e: any) {
+        logError(`Failed to read audio attachment ${uri.toString()}`, e);
+        vscode.window.showErrorMessage(`Failed to attach "${name}": ${e.message}`);
+      }
     }
   }
 
   dispose(): void {
+    for (const entry of [...this.panels.values()]) {
+      entry.panel.dispose();
+    }
+    this.panels.clear();
     this.sessionUpdateHandler.removeListener(this.updateListener);
   }
 }
 
+/**
+ * Append a transcript message to a replay log, compacting it so the log
+ * grows with the conversation rather than with the stream: consecutive
+ * text chunks of the same kind are merged, and a tool call's updates are
+ * folded into the message that started it. Past
+ * {@link MAX_LOGGED_MESSAGES} the oldest messages are dropped.
+ */
+function appendToLog(log: any[], message: any): void {
+  const update = message.type === 'sessionUpdate' ? message.update : undefined;
+  if (update?.sessionUpdate === 'user_message_chunk' && update.content?.data !== undefined) {
+    // Image / audio bytes replayed by `session/load`: keep only the type.
+    const { data: _data, ...content } = update.content;
+    message = { ...message, update: { ...update, content } };
+  }
+  const last = log.at(-1);
+  if (isTextChunk(update) && last?.type === 'sessionUpdate' && isTextChunk(last.update)
+    && last.update.sessionUpdate === update.sessionUpdate) {
+    const text = last.update.content.text + update.content.text;
+    log[log.length - 1] = { ...last, update: { ...last.update, content: { ...last.update.content, text } } };
+    return;
+  }
+  if (update?.sessionUpdate === 'tool_call_update') {
+    for (let i = log.length - 1; i >= 0; i--) {
+      const logged = log[i].type === 'sessionUpdate' ? log[i].update : undefined;
+      if ((logged?.sessionUpdate === 'tool_call' || logged?.sessionUpdate === 'tool_call_update')
+        && logged.toolCallId === update.toolCallId) {
+        // Fields left out of an update are unchanged; replaying the merged
+        // message renders the tool call's latest state.
+        const merged = { ...logged };
+        for (const [key, value] of Object.entries(update)) {
+          if (key !== 'sessionUpdate' && value !== undefined && value !== null) {
+            merged[key] = value;
+          }
+        }
+        log[i] = { ...log[i], update: merged };
+        return;
+      }
+    }
+  }
+
+  log.push(message);
+  if (log.length > MAX_LOGGED_MESSAGES) {
+    if (log[0] === LOG_TRIMMED) {
+      log.shift();
+    }
+    log.splice(0, log.length - MAX_LOGGED_MESSAGES + 1, LOG_TRIMMED);
+  }
+}
+
+/**
+ * Add the line hunks of each diff a tool call carries (`hunks`), so the
+ * webview renders them without diffing whole files itself.
+ */
+function withDiffHunks(update: any): any {
+  if ((update?.sessionUpdate !== 'tool_call' && update?.sessionUpdate !== 'tool_call_update')
+    || !Array.isArray(update.content) || !update.content.some((c: any) => c?.type === 'diff')) {
+    return update;
+  }
+  const content = update.content.map((c: any) => {
+    if (c?.type !== 'diff') {
+      return c;
+    }
+    const newText = c.newText ?? '';
+    const hunks = c.oldText
+      ? computeHunks(c.oldText, newText)
+      : [{ oldStart: 0, oldLines: [], newLines: newText ? splitLines(newText) : [] }];
+    return { ...c, hunks };
+  });
+  return { ...update, content };
+}
+
+function isTextChunk(update: any): boolean {
+  return (update?.sessionUpdate === 'agent_message_chunk' || update?.sessionUpdate === 'agent_thought_chunk'
+    || update?.sessionUpdate === 'user_message_chunk')
+    && update.content?.type === 'text' && typeof update.content.text === 'string';
+}
+
 function getNonce(): string {
   let text = '';
   const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
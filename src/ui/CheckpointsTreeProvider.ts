@@ -0,0 +1,81 @@
+import * as vscode from 'vscode';
+import { SessionManager } from '../core/SessionManager';
+import { Checkpoints, FileSnapshot, Turn } from '../core/Checkpoints';
+
+/** Tier-1 — a live session that has checkpoints. */
+export class CheckpointSessionItem extends vscode.TreeItem {
+  constructor(public readonly sessionId: string, label: string) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+    this.contextValue = 'checkpoint-session';
+    this.iconPath = new vscode.ThemeIcon('comment-discussion');
+  }
+}
+
+/** Tier-2 — a prompt turn that changed files. */
+export class TurnTreeItem extends vscode.TreeItem {
+  constructor(public readonly turn: Turn) {
+    super(`Turn ${turn.index}`, vscode.TreeItemCollapsibleState.Collapsed);
+    this.contextValue = 'checkpoint-turn';
+    this.iconPath = new vscode.ThemeIcon('history');
+    this.description = turn.prompt || `${turn.files.size} file(s)`;
+    const files = [...turn.files.values()].map(f => vscode.workspace.asRelativePath(f.uri));
+    this.tooltip = `${turn.prompt ? turn.prompt + '\n\n' : ''}Changed:\n${files.join('\n')}`;
+  }
+}
+
+/** Tier-3 — a file the turn changed. Clicking shows the change since the checkpoint. */
+export class CheckpointFileItem extends vscode.TreeItem {
+  constructor(public readonly turn: Turn, public readonly snapshot: FileSnapshot) {
+    super(snapshot.uri, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = 'checkpoint-file';
+    this.description = snapshot.before === null ? 'created' : undefined;
+    this.command = {
+      command: 'acp.openCheckpointDiff',
+      title: 'Compare with Checkpoint',
+      arguments: [this],
+    };
+  }
+}
+
+type CheckpointNode = CheckpointSessionItem | TurnTreeItem | CheckpointFileItem;
+
+/**
+ * Tree provider for the Checkpoints view: per live session, the prompt
+ * turns that changed files, each revertible from its context menu.
+ */
+export class CheckpointsTreeProvider implements vscode.TreeDataProvider<CheckpointNode> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<CheckpointNode | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(
+    private readonly checkpoints: Checkpoints,
+    private readonly sessionManager: SessionManager,
+  ) {
+    this.checkpoints.onDidChange(() => this._onDidChangeTreeData.fire());
+    this.sessionManager.on('session-info-changed', () => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: CheckpointNode): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: CheckpointNode): CheckpointNode[] {
+    if (!element) {
+      return this.checkpoints.getSessionIds().map(sessionId => {
+        const session = this.sessionManager.getSession(sessionId);
+        const label = session
+          ? (session.title ? `${session.agentDisplayName}: ${session.title}` : session.agentDisplayName)
+          : sessionId;
+        return new CheckpointSessionItem(sessionId, label);
+      });
+    }
+    if (element instanceof CheckpointSessionItem) {
+      // Newest turn first.
+      return this.checkpoints.getTurns(element.sessionId).reverse().map(turn => new TurnTreeItem(turn));
+    }
+    if (element instanceof TurnTreeItem) {
+      return [...element.turn.files.values()].map(snapshot => new CheckpointFileItem(element.turn, snapshot));
+    }
+    return [];
+  }
+}
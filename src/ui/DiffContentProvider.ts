@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+
+/** Diffs kept for re-opening; older ones are dropped first. */
+const MAX_DIFFS = 50;
+
+/**
+ * Serves the before/after text of agent edits as read-only virtual
+ * documents, so tool call diffs can be opened in the native diff editor.
+ *
+ * URIs keep the file's path (for language detection and the tab title)
+ * under the `acp-diff` scheme, with the diff id and side in the query.
+ */
+export class DiffContentProvider implements vscode.TextDocumentContentProvider {
+  public static readonly scheme = 'acp-diff';
+
+  private diffs: Map<string, { oldText: string; newText: string }> = new Map();
+  private nextId = 1;
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    const params = new URLSearchParams(uri.query);
+    const diff = this.diffs.get(params.get('id') ?? '');
+    if (!diff) {
+      return '';
+    }
+    return params.get('side') === 'old' ? diff.oldText : diff.newText;
+  }
+
+  /**
+   * Open `vscode.diff` between `oldText` and `newText` for `fileUri`. A
+   * null `oldText` means the agent created the file.
+   */
+  async showDiff(fileUri: vscode.Uri, oldText: string | null, newText: string): Promise<void> {
+    const id = String(this.nextId++);
+    this.diffs.set(id, { oldText: oldText ?? '', newText });
+    if (this.diffs.size > MAX_DIFFS) {
+      this.diffs.delete(this.diffs.keys().next().value!);
+    }
+
+    const left = fileUri.with({ scheme: DiffContentProvider.scheme, query: `id=${id}&side=old` });
+    const right = fileUri.with({ scheme: DiffContentProvider.scheme, query: `id=${id}&side=new` });
+    const name = fileUri.path.split('/').pop() || fileUri.toString(true);
+    const title = oldText === null
+      ? `${name} (created by agent)`
+      : `${name} (agent edit)`;
+    await vscode.commands.executeCommand('vscode.diff', left, right, title, { preview: true });
+  }
+}
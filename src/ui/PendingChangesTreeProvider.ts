@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { PendingChanges, PendingChange } from '../core/PendingChanges';
+import { computeHunks } from '../utils/LineDiff';
+
+/**
+ * A staged agent write. Clicking it opens the diff; inline actions accept
+ * or reject it.
+ */
+export class PendingChangeTreeItem extends vscode.TreeItem {
+  constructor(public readonly change: PendingChange) {
+    super(change.uri, vscode.TreeItemCollapsibleState.None);
+    this.contextValue = change.original === null ? 'pending-change-new' : 'pending-change';
+
+    const relative = vscode.workspace.asRelativePath(change.uri);
+    if (change.original === null) {
+      this.description = 'new file';
+    } else {
+      let added = 0;
+      let removed = 0;
+      for (const hunk of computeHunks(change.original, change.proposed)) {
+        added += hunk.newLines.length;
+        removed += hunk.oldLines.length;
+      }
+      this.description = `+${added} -${removed}`;
+    }
+    this.tooltip = `${relative}\nClick to review the agent's change`;
+    this.command = {
+      command: 'acp.openPendingChange',
+      title: 'Review Change',
+      arguments: [this],
+    };
+  }
+}
+
+/**
+ * Tree provider for the Pending Changes view: agent writes staged by
+ * `acp.reviewWrites`, waiting to be accepted or rejected.
+ */
+export class PendingChangesTreeProvider implements vscode.TreeDataProvider<PendingChangeTreeItem> {
+  private _onDidChangeTreeData = new vscode.EventEmitter<PendingChangeTreeItem | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(private readonly pendingChanges: PendingChanges) {
+    this.pendingChanges.onDidChange(() => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: PendingChangeTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: PendingChangeTreeItem): PendingChangeTreeItem[] {
+    if (element) {
+      return [];
+    }
+    return this.pendingChanges.getAll()
+      .sort((a, b) => a.uri.fsPath.localeCompare(b.uri.fsPath))
+      .map(change => new PendingChangeTreeItem(change));
+  }
+}
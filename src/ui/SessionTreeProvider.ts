@@ -9,12 +9,16 @@ import { log, logError } from '../utils/Logger';
  * Tier-1 — a configured agent. Collapsible only when we believe the agent
  * has any way to expose past sessions (either supports session/list, or has
  * locally-cached entries via {@link SessionHistoryStore}).
+ *
+ * Any number of agents can be connected; `active` marks the one whose
+ * session the chat view is currently showing.
  */
 export class AgentTreeItem extends vscode.TreeItem {
   constructor(
     public readonly agentName: string,
     public readonly connected: boolean,
     collapsibleState: vscode.TreeItemCollapsibleState,
+    public readonly active: boolean = false,
   ) {
     super(agentName, collapsibleState);
 
@@ -24,8 +28,9 @@ export class AgentTreeItem extends vscode.TreeItem {
         'circle-filled',
         new vscode.ThemeColor('testing.iconPassed'),
       );
-      this.description = 'connected';
-      this.command = { command: 'acp.openChat', title: 'Open Chat' };
+      this.description = active ? 'connected · active' : 'connected';
+      // Re-running connect on a connected agent just switches the chat to it.
+      this.command = { command: 'acp.connectAgent', title: 'Open Chat', arguments: [agentName] };
     } else {
       this.contextValue = 'agent-disconnected';
       this.iconPath = new vscode.ThemeIcon('circle-outline');
@@ -40,7 +45,8 @@ export class AgentTreeItem extends vscode.TreeItem {
 
 /**
  * Tier-2 — a session belonging to an agent. Clicking it routes to
- * `acp.openSession` which calls `session/load` or `session/resume`.
+ * `acp.openSession` which calls `session/load` or `session/resume`, or
+ * simply switches the chat to it when the session is already live.
  */
 export class SessionTreeItem extends vscode.TreeItem {
   constructor(
@@ -50,10 +56,12 @@ export class SessionTreeItem extends vscode.TreeItem {
     public readonly isActive: boolean,
     description: string | undefined,
     tooltip: string,
-    public readonly source: 'agent' | 'local',
+    public readonly source: 'agent' | 'local' | 'live',
   ) {
     super(label, vscode.TreeItemCollapsibleState.None);
-    this.contextValue = source === 'local' ? 'session-local' : 'session';
+    this.contextValue = source === 'local' ? 'session-local'
+      : source === 'live' ? 'session-live'
+        : 'session';
     this.description = description;
     this.tooltip = tooltip;
     if (isActive) {
@@ -158,6 +166,7 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<AgentNode |
     this.sessionManager.on('agent-disconnected', () => this.refresh());
     this.sessionManager.on('active-session-changed', () => this.refresh());
     this.sessionManager.on('session-info-changed', () => this.refresh());
+    this.sessionManager.on('session-closed', () => this.refresh());
     if (this.historyStore) {
       this.historyStore.onDidChange(() => this.refresh());
     }
@@ -197,6 +206,7 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<AgentNode |
   // --- Tier 1 ---
 
   private getAgentNodes(): AgentTreeItem[] {
+    const activeAgent = this.sessionManager.getActiveAgentName();
     return getAgentNames().map(name => {
       const caps = this.sessionManager.getCachedCapabilities(name);
       const localCount = this.historyStore?.list(name, this.workspaceCwd()).length ?? 0;
@@ -205,6 +215,7 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<AgentNode |
         name,
         this.sessionManager.isAgentConnected(name),
         collapsibleState,
+        name === activeAgent,
       );
     });
   }
@@ -215,8 +226,10 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<AgentNode |
     localCount: number,
   ): vscode.TreeItemCollapsibleState {
     // Known unsupported (no list, no load, no resume) AND nothing cached
-    // locally → no expand affordance to avoid misleading the user.
-    if (caps && !caps.list && !caps.load && !caps.resume && localCount === 0) {
+    // locally → no expand affordance to avoid misleading the user. Connected
+    // agents always expand so their live sessions can be switched between.
+    if (caps && !caps.list && !caps.load && !caps.resume && localCount === 0
+      && !this.sessionManager.isAgentConnected(agentName)) {
       return vscode.TreeItemCollapsibleState.None;
     }
     // Otherwise default to collapsed; expansion triggers probing/fetching.
@@ -225,7 +238,48 @@ export class SessionTreeProvider implements vscode.TreeDataProvider<AgentNode |
 
   // --- Tier 2 ---
 
+  /**
+   * Live sessions are listed first, followed by the agent's past sessions
+   * (minus the ones already shown as live).
+   */
   private async getAgentChildren(agent: AgentTreeItem): Promise<ChildNode[]> {
+    const liveItems = this.getLiveChildren(agent.agentName);
+    if (liveItems.length === 0) {
+      return this.getPastChildren(agent);
+    }
+    const liveIds = new Set(liveItems.map(i => i.sessionId));
+    const past = (await this.getPastChildren(agent)).filter(child => {
+      if (child instanceof SessionTreeItem) {
+        return !liveIds.has(child.sessionId);
+      }
+      // "(no previous sessions)" / "not supported" read oddly under live rows.
+      return child.kind !== 'empty' && child.kind !== 'unsupported';
+    });
+    return [...liveItems, ...past];
+  }
+
+  private getLiveChildren(agentName: string): SessionTreeItem[] {
+    const activeId = this.sessionManager.getActiveSessionId();
+    const sessions = this.sessionManager.getAgentSessions(agentName);
+    return sessions.map(session => {
+      const entry = this.historyStore?.get(agentName, session.sessionId);
+      const label = session.title?.trim()
+        || (entry?.firstPrompt?.trim() && truncate(entry.firstPrompt.trim(), 60))
+        || 'New conversation';
+      const isActive = session.sessionId === activeId;
+      return new SessionTreeItem(
+        agentName,
+        session.sessionId,
+        label,
+        isActive,
+        isActive ? 'live · active' : 'live',
+        buildSessionTooltip(agentName, session.sessionId, session.cwd, undefined, 'live'),
+        'live',
+      );
+    });
+  }
+
+  private async getPastChildren(agent: AgentTreeItem): Promise<ChildNode[]> {
     const name = agent.agentName;
     let caps = this.sessionManager.getCachedCapabilities(name);
 
@@ -538,7 +592,7 @@ function buildSessionTooltip(
   sessionId: string,
   cwd: string | undefined,
   updatedAt: string | undefined | null,
-  source: 'agent' | 'local',
+  source: 'agent' | 'local' | 'live',
 ): string {
   const lines = [
     `Agent: ${agentName}`,
@@ -548,6 +602,8 @@ function buildSessionTooltip(
   if (updatedAt) { lines.push(`Last active: ${updatedAt}`); }
   lines.push(source === 'local'
     ? 'Stored locally — agent does not list sessions'
-    : 'Listed by agent');
+    : source === 'live'
+      ? 'Open in this window — click to show in chat'
+      : 'Listed by agent');
   return lines.join('\n');
 }
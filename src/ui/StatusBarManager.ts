@@ -25,16 +25,28 @@ export class StatusBarManager {
 
   private updateStatus(): void {
     const activeSession = this.sessionManager.getActiveSession();
-    const connectedAgents = this.sessionManager.getConnectedAgentNames();
+    const liveSessions = this.sessionManager.getLiveSessions();
 
-    if (connectedAgents.length === 0) {
+    if (liveSessions.length === 0) {
       this.statusBarItem.text = '$(hubot) ACP: Disconnected';
       this.statusBarItem.tooltip = 'Click to connect to an agent';
       this.statusBarItem.backgroundColor = undefined;
     } else {
-      const agentName = activeSession?.agentDisplayName || connectedAgents[0];
-      this.statusBarItem.text = `$(hubot) ACP: ${agentName}`;
-      this.statusBarItem.tooltip = `Connected to ${agentName}\n${connectedAgents.length} agent(s) connected`;
+      const agentName = activeSession?.agentDisplayName || liveSessions[0].agentDisplayName;
+      const agentNames = this.sessionManager.getConnectedAgentNames();
+      const others = agentNames.length - 1;
+      this.statusBarItem.text = others > 0
+        ? `$(hubot) ACP: ${agentName} +${others}`
+        : `$(hubot) ACP: ${agentName}`;
+      const lines = agentNames.map(name => {
+        const sessions = this.sessionManager.getAgentSessions(name);
+        const displayName = sessions[0]?.agentDisplayName || name;
+        const count = sessions.length > 1 ? ` · ${sessions.length} sessions` : '';
+        return name === activeSession?.agentName
+          ? `● ${displayName}${count} (active)`
+          : `○ ${displayName}${count}`;
+      });
+      this.statusBarItem.tooltip = `${agentNames.length} agent(s) connected\n${lines.join('\n')}\nClick to connect or switch agents`;
       this.statusBarItem.backgroundColor = undefined;
     }
 
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import { SessionManager } from '../core/SessionManager';
+import { TerminalHandler, TerminalInfo } from '../handlers/TerminalHandler';
+
+/** How often running terminals' runtime and output size are refreshed. */
+const REFRESH_INTERVAL_MS = 1000;
+
+/** Tier-1 — a session whose agent created terminals. */
+export class TerminalSessionItem extends vscode.TreeItem {
+  constructor(public readonly sessionId: string, label: string) {
+    super(label, vscode.TreeItemCollapsibleState.Expanded);
+    this.contextValue = 'terminal-session';
+    this.iconPath = new vscode.ThemeIcon('comment-discussion');
+  }
+}
+
+/** Tier-2 — a terminal. Clicking shows it; inline actions kill or rerun it. */
+export class TerminalTreeItem extends vscode.TreeItem {
+  constructor(public readonly info: TerminalInfo) {
+    super(info.commandLine, vscode.TreeItemCollapsibleState.None);
+    const running = info.endedAt === undefined;
+    this.contextValue = running ? 'terminal-running' : 'terminal-exited';
+    this.iconPath = running
+      ? new vscode.ThemeIcon('sync~spin')
+      : new vscode.ThemeIcon(info.exitCode === 0 ? 'pass' : 'error');
+
+    const status = running
+      ? 'running'
+      : info.exitSignal ? `killed by ${info.exitSignal}` : `exit ${info.exitCode}`;
+    const runtime = formatDuration((info.endedAt ?? Date.now()) - info.startedAt);
+    const size = formatSize(info.outputBytes) + (info.truncated ? ' (truncated)' : '');
+    this.description = `${status} · ${runtime} · ${size}`;
+    this.tooltip = [
+      info.commandLine,
+      '',
+      `Directory: ${info.cwd}`,
+      `Status: ${status}${info.released ? ', released by the agent' : ''}`,
+      `Runtime: ${runtime}`,
+      `Output: ${size}`,
+    ].join('\n');
+    this.command = {
+      command: 'acp.focusTerminal',
+      title: 'Show Terminal',
+      arguments: [this],
+    };
+  }
+}
+
+type TerminalNode = TerminalSessionItem | TerminalTreeItem;
+
+/**
+ * Tree provider for the Terminals view: per session, the commands its
+ * agent ran via `terminal/create`, with their status, runtime and output
+ * size. Refreshes every second while any of them is running.
+ */
+export class TerminalsTreeProvider implements vscode.TreeDataProvider<TerminalNode>, vscode.Disposable {
+  private _onDidChangeTreeData = new vscode.EventEmitter<TerminalNode | undefined | null | void>();
+  readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+  private refreshTimer: ReturnType<typeof setInterval> | undefined;
+
+  constructor(
+    private readonly terminalHandler: TerminalHandler,
+    private readonly sessionManager: SessionManager,
+  ) {
+    this.terminalHandler.on('change', () => this.refresh());
+    this.sessionManager.on('session-info-changed', () => this._onDidChangeTreeData.fire());
+  }
+
+  getTreeItem(element: TerminalNode): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: TerminalNode): TerminalNode[] {
+    const terminals = this.terminalHandler.getTerminals();
+    if (!element) {
+      return [...new Set(terminals.map(t => t.sessionId))].map(sessionId => {
+        const session = this.sessionManager.getSession(sessionId);
+        const label = session
+          ? (session.title ? `${session.agentDisplayName}: ${session.title}` : session.agentDisplayName)
+          : sessionId;
+        return new TerminalSessionItem(sessionId, label);
+      });
+    }
+    if (element instanceof TerminalSessionItem) {
+      // Newest first.
+      return terminals
+        .filter(t => t.sessionId === element.sessionId)
+        .reverse()
+        .map(info => new TerminalTreeItem(info));
+    }
+    return [];
+  }
+
+  dispose(): void {
+    clearInterval(this.refreshTimer);
+    this._onDidChangeTreeData.dispose();
+  }
+
+  /** Redraw, and keep redrawing while a terminal is running. */
+  private refresh(): void {
+    this._onDidChangeTreeData.fire();
+    const running = this.terminalHandler.getTerminals().some(t => t.endedAt === undefined);
+    if (running && !this.refreshTimer) {
+      this.refreshTimer = setInterval(() => this._onDidChangeTreeData.fire(), REFRESH_INTERVAL_MS);
+    } else if (!running && this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = undefined;
+    }
+  }
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `${minutes}m ${seconds % 60}s`;
+  }
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+
+/** `scheme:` prefix of a URI; two or more characters so `C:\` stays a path. */
+const URI_SCHEME = /^[a-zA-Z][a-zA-Z0-9+.-]+:/;
+
+/**
+ * Map a path from an agent onto a workspace URI.
+ *
+ * ACP paths are absolute paths on the agent's machine, but the workspace
+ * may be remote (`vscode-remote:` for SSH, WSL and dev containers) or
+ * virtual. A path under a non-`file` workspace folder gets that folder's
+ * scheme and authority. Agents may also pass a URI directly, e.g.
+ * `untitled:Untitled-1` for an unsaved buffer.
+ */
+export function toWorkspaceUri(path: string): vscode.Uri {
+  if (URI_SCHEME.test(path)) {
+    return vscode.Uri.parse(path);
+  }
+  const posixPath = path.replace(/\\/g, '/');
+  const folder = (vscode.workspace.workspaceFolders ?? [])
+    .filter(f => f.uri.scheme !== 'file' && isUnder(posixPath, f.uri.path))
+    .sort((a, b) => b.uri.path.length - a.uri.path.length)[0];
+  return folder ? folder.uri.with({ path: posixPath }) : vscode.Uri.file(path);
+}
+
+/** The open text document for `uri`, including unsaved and untitled ones. */
+export function findOpenDocument(uri: vscode.Uri): vscode.TextDocument | undefined {
+  const key = uri.toString();
+  return vscode.workspace.textDocuments.find(doc => doc.uri.toString() === key);
+}
+
+function isUnder(path: string, root: string): boolean {
+  const prefix = root.endsWith('/') ? root : root + '/';
+  return path === root || path.startsWith(prefix);
+}
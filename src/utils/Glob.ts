@@ -0,0 +1,92 @@
+/**
+ * Small glob matcher for user-configured path patterns (file access
+ * policy, ignore files, command rules).
+ *
+ * Supports `*` (within a path segment), `**` (any number of segments),
+ * `?`, `[...]` character classes and `{a,b}` alternatives. Paths and
+ * patterns use `/` separators.
+ */
+
+const cache: Map<string, RegExp> = new Map();
+
+/** Compile a glob to an anchored regular expression. */
+export function globToRegExp(glob: string, ignoreCase = false): RegExp {
+  const key = `${ignoreCase ? 'i' : ''}:${glob}`;
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  let re = '';
+  let braceDepth = 0;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    switch (c) {
+      case '*':
+        if (glob[i + 1] === '*') {
+          // `**/` matches zero or more directories; a trailing `**` anything.
+          if (glob[i + 2] === '/') {
+            re += '(?:.*/)?';
+            i += 2;
+          } else {
+            re += '.*';
+            i += 1;
+          }
+        } else {
+          re += '[^/]*';
+        }
+        break;
+      case '?':
+        re += '[^/]';
+        break;
+      case '[': {
+        const end = glob.indexOf(']', i + 1);
+        if (end < 0) {
+          re += '\\[';
+        } else {
+          let cls = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+          if (cls.startsWith('!')) {
+            cls = '^' + cls.slice(1);
+          }
+          re += `[${cls}]`;
+          i = end;
+        }
+        break;
+      }
+      case '{':
+        braceDepth++;
+        re += '(?:';
+        break;
+      case '}':
+        if (braceDepth > 0) {
+          braceDepth--;
+          re += ')';
+        } else {
+          re += '\\}';
+        }
+        break;
+      case ',':
+        re += braceDepth > 0 ? '|' : ',';
+        break;
+      default:
+        re += c.replace(/[.+^$()|\\]/g, '\\$&');
+    }
+  }
+
+  const regExp = new RegExp(`^${re}$`, ignoreCase ? 'i' : '');
+  cache.set(key, regExp);
+  return regExp;
+}
+
+/**
+ * Whether `path` matches `glob`. Patterns without a `/` match the last
+ * path segment (so `.env*` matches `config/.env.local`), like gitignore.
+ */
+export function matchesGlob(path: string, glob: string, ignoreCase = false): boolean {
+  const normalized = path.replace(/\\/g, '/');
+  if (!glob.includes('/')) {
+    const base = normalized.slice(normalized.lastIndexOf('/') + 1);
+    return globToRegExp(glob, ignoreCase).test(base);
+  }
+  return globToRegExp(glob.replace(/^\.\//, ''), ignoreCase).test(normalized);
+}
@@ -0,0 +1,148 @@
+/**
+ * Minimal line diff used to split agent writes into hunks that can be
+ * applied one by one.
+ */
+
+/** A contiguous run of changed lines, in terms of the old text's lines. */
+export interface DiffHunk {
+  /** 0-based index of the first replaced line in the old text. */
+  oldStart: number;
+  /** Lines removed from the old text. */
+  oldLines: string[];
+  /** Lines inserted in their place. */
+  newLines: string[];
+}
+
+/** Above this many cells the LCS table is skipped (one hunk for the whole change). */
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Split text into lines; `\r` stays on the line so joining with `\n` round-trips. */
+export function splitLines(text: string): string[] {
+  return text.split('\n');
+}
+
+/** Compute the hunks that turn `oldText` into `newText`. */
+export function computeHunks(oldText: string, newText: string): DiffHunk[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+  if (start === endA && start === endB) {
+    return [];
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [{ oldStart: start, oldLines: midA, newLines: midB }];
+  }
+
+  // LCS table over the differing middle section.
+  const n = midA.length;
+  const m = midB.length;
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    table.push(new Uint32Array(m + 1));
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = midA[i] === midB[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | undefined;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && midA[i] === midB[j]) {
+      current = undefined;
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { oldStart: start + i, oldLines: [], newLines: [] };
+      hunks.push(current);
+    }
+    if (j >= m || (i < n && table[i + 1][j] >= table[i][j + 1])) {
+      current.oldLines.push(midA[i++]);
+    } else {
+      current.newLines.push(midB[j++]);
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Apply a subset of the hunks computed for `oldText` (in any order) and
+ * return the resulting text.
+ */
+export function applyHunks(oldText: string, hunks: DiffHunk[]): string {
+  const lines = splitLines(oldText);
+  // Apply bottom-up so earlier line indexes stay valid.
+  const sorted = [...hunks].sort((x, y) => y.oldStart - x.oldStart);
+  for (const hunk of sorted) {
+    lines.splice(hunk.oldStart, hunk.oldLines.length, ...hunk.newLines);
+  }
+  return lines.join('\n');
+}
+
+/** The character offset at which each line of `text` starts. */
+export function lineStartOffsets(text: string): number[] {
+  const offsets = [0];
+  for (let i = text.indexOf('\n'); i >= 0; i = text.indexOf('\n', i + 1)) {
+    offsets.push(i + 1);
+  }
+  return offsets;
+}
+
+/**
+ * The character range of `oldText` a hunk replaces and the text to put
+ * there, for applying hunks as minimal editor edits. Pass `lineStarts`
+ * (from {@link lineStartOffsets}) when converting several hunks of the
+ * same text.
+ */
+export function hunkToTextEdit(
+  oldText: string,
+  hunk: DiffHunk,
+  lineStarts = lineStartOffsets(oldText),
+): { start: number; end: number; text: string } {
+  const lineCount = lineStarts.length;
+  const startLine = hunk.oldStart;
+  const endLine = hunk.oldStart + hunk.oldLines.length;
+
+  if (endLine < lineCount) {
+    // Whole lines, each with its line break.
+    return {
+      start: lineStarts[startLine],
+      end: lineStarts[endLine],
+      text: hunk.newLines.map(line => line + '\n').join(''),
+    };
+  }
+  // The hunk reaches the last line, which has no line break after it.
+  if (startLine === lineCount) {
+    return { start: oldText.length, end: oldText.length, text: '\n' + hunk.newLines.join('\n') };
+  }
+  if (hunk.newLines.length === 0 && startLine > 0) {
+    // Removing the tail also removes the line break before it.
+    return { start: lineStarts[startLine] - 1, end: oldText.length, text: '' };
+  }
+  return { start: lineStarts[startLine], end: oldText.length, text: hunk.newLines.join('\n') };
+}
+
+/** One-line summary of a hunk, e.g. `Line 12: -3 +4`. */
+export function describeHunk(hunk: DiffHunk): string {
+  return `Line ${hunk.oldStart + 1}: -${hunk.oldLines.length} +${hunk.newLines.length}`;
+}
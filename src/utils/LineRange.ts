@@ -0,0 +1,114 @@
+/**
+ * Line-range selection for `fs/read_text_file` that works on text arriving
+ * in chunks, so large files can be streamed and reading can stop as soon
+ * as the requested lines are in hand.
+ */
+
+export interface LineRangeRequest {
+  /** 1-based first line; defaults to 1. */
+  line?: number | null;
+  /** Number of lines; defaults to the rest of the file. */
+  limit?: number | null;
+  /** Cap on the UTF-8 size of the returned text. */
+  maxBytes: number;
+}
+
+export interface LineRangeResult {
+  content: string;
+  /** The range was cut short by `maxBytes`. */
+  truncated: boolean;
+  /**
+   * The first line of the range is longer than `maxBytes` on its own, and
+   * only its start was returned.
+   */
+  lineCut: boolean;
+  /** The 1-based line after the last complete one returned. */
+  nextLine: number;
+}
+
+/**
+ * Select the requested lines from `chunks`. Lines are joined with `\n` as
+ * they appear in the source (a CRLF file keeps its `\r`s). Stops pulling
+ * chunks once the range is complete or `maxBytes` is reached.
+ */
+export async function collectLineRange(
+  chunks: AsyncIterable<string> | Iterable<string>,
+  request: LineRangeRequest,
+): Promise<LineRangeResult> {
+  const start = Math.max(1, request.line ?? 1);
+  const limit = request.limit ?? Infinity;
+  if (limit <= 0) {
+    return { content: '', truncated: false, lineCut: false, nextLine: start };
+  }
+  const lines: string[] = [];
+  let size = 0;
+  let seen = 0;
+  let truncated = false;
+  let lineCut = false;
+
+  // Handle one complete line; true once no more lines are wanted.
+  const take = (text: string): boolean => {
+    seen++;
+    if (seen < start) {
+      return false;
+    }
+    const cost = Buffer.byteLength(text) + (lines.length > 0 ? 1 : 0);
+    if (size + cost > request.maxBytes) {
+      truncated = true;
+      if (lines.length === 0) {
+        lines.push(truncateToBytes(text, request.maxBytes));
+        lineCut = true;
+      }
+      return true;
+    }
+    lines.push(text);
+    size += cost;
+    return lines.length >= limit;
+  };
+  const result = (): LineRangeResult => ({
+    content: lines.join('\n'),
+    truncated,
+    lineCut,
+    nextLine: start + lines.length - (lineCut ? 1 : 0),
+  });
+
+  let partial = '';
+  for await (const chunk of chunks) {
+    let pos = 0;
+    let newline: number;
+    while ((newline = chunk.indexOf('\n', pos)) >= 0) {
+      const line = partial + chunk.slice(pos, newline);
+      partial = '';
+      pos = newline + 1;
+      if (take(line)) {
+        return result();
+      }
+    }
+    partial += chunk.slice(pos);
+
+    if (seen + 1 < start) {
+      // Inside a skipped line: its text is never needed.
+      partial = '';
+    } else if (Buffer.byteLength(partial) > request.maxBytes) {
+      // A single line longer than the cap; no need to wait for its end.
+      take(partial);
+      return result();
+    }
+  }
+  take(partial);
+  return result();
+}
+
+/** The longest prefix of `text` whose UTF-8 encoding fits in `maxBytes`. */
+function truncateToBytes(text: string, maxBytes: number): string {
+  const bytes = Buffer.from(text, 'utf8');
+  if (bytes.length <= maxBytes) {
+    return text;
+  }
+  // Back off to a character boundary (UTF-8 continuation bytes are 10xxxxxx).
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) {
+    end--;
+  }
+  return bytes.subarray(0, end).toString('utf8');
+}
@@ -0,0 +1,141 @@
+import { execFile } from 'node:child_process';
+
+import { log, logError } from './Logger';
+
+/** One row of the system process table. */
+export interface ProcessInfo {
+  pid: number;
+  ppid: number;
+  /** Resident memory in bytes. */
+  memory: number;
+}
+
+const isWindows = process.platform === 'win32';
+
+/** List every process with its parent and resident memory. */
+export async function listProcesses(): Promise<ProcessInfo[]> {
+  const stdout = isWindows
+    ? await run('powershell.exe', [
+      '-NoProfile',
+      '-NonInteractive',
+      '-Command',
+      'Get-CimInstance Win32_Process | ForEach-Object { "$($_.ProcessId) $($_.ParentProcessId) $($_.WorkingSetSize)" }',
+    ])
+    : await run('ps', ['-A', '-o', 'pid=,ppid=,rss=']);
+  const processes: ProcessInfo[] = [];
+  for (const line of stdout.split(/\r?\n/)) {
+    const [pid, ppid, memory] = line.trim().split(/\s+/).map(Number);
+    if (Number.isInteger(pid) && Number.isInteger(ppid)) {
+      // `ps` reports RSS in KB; Windows reports the working set in bytes.
+      processes.push({ pid, ppid, memory: isWindows ? memory || 0 : (memory || 0) * 1024 });
+    }
+  }
+  return processes;
+}
+
+/** `pid` and all its descendants in `processes`, parents first. */
+export function processTree(pid: number, processes: ProcessInfo[]): ProcessInfo[] {
+  const tree = [processes.find(p => p.pid === pid) ?? { pid, ppid: 0, memory: 0 }];
+  for (let i = 0; i < tree.length; i++) {
+    tree.push(...processes.filter(p => p.ppid === tree[i].pid && p.pid !== p.ppid));
+  }
+  return tree;
+}
+
+/** Total resident memory of `pid` and its descendants, in bytes. */
+export async function treeMemory(pid: number): Promise<number> {
+  return processTree(pid, await listProcesses()).reduce((sum, p) => sum + p.memory, 0);
+}
+
+/**
+ * Send `signal` to `pid` and every descendant. The tree is listed before
+ * anything is signalled, so children cannot escape by being reparented
+ * when their parent dies; when `pid` leads a process group (see
+ * {@link terminateProcessTree}) the whole group is signalled as well. On
+ * Windows the tree is force-killed by `taskkill /T /F` whatever the signal.
+ */
+export async function killProcessTree(pid: number, signal: NodeJS.Signals = 'SIGTERM'): Promise<void> {
+  if (isWindows) {
+    await run('taskkill', ['/PID', String(pid), '/T', '/F']).catch(e => logError(`taskkill ${pid} failed`, e));
+    return;
+  }
+  signalAll(pid, await listTree(pid), signal);
+}
+
+/**
+ * Stop `pid` and everything it started: SIGTERM to the tree and its
+ * process group, then SIGKILL to whatever is still alive after `graceMs`.
+ * Resolves once the processes are gone or have been sent SIGKILL.
+ *
+ * Spawn with `detached: true` (node-pty always does) so the child leads
+ * its own process group; descendants that daemonize out of the tree are
+ * then still reached through the group. With `leaderExited` only the
+ * group is signalled: `pid` itself may already belong to another process.
+ */
+export async function terminateProcessTree(
+  pid: number,
+  { graceMs = 3000, leaderExited = false }: { graceMs?: number; leaderExited?: boolean } = {},
+): Promise<void> {
+  if (isWindows) {
+    // Without its root the tree can't be found; Windows has no groups.
+    if (!leaderExited) {
+      await killProcessTree(pid);
+    }
+    return;
+  }
+  const pids = leaderExited ? [] : await listTree(pid);
+  signalAll(pid, pids, 'SIGTERM');
+  for (const deadline = Date.now() + graceMs; Date.now() < deadline;) {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    if (!pids.some(isAlive) && !isAlive(-pid)) {
+      return;
+    }
+  }
+  // Include anything started since the first listing.
+  const survivors = [...new Set([...pids, ...leaderExited ? [] : await listTree(pid)])].filter(isAlive);
+  log(`Process tree of ${pid} survived SIGTERM for ${graceMs} ms; sending SIGKILL`);
+  signalAll(pid, survivors, 'SIGKILL');
+}
+
+/** The pids of `pid`'s tree, or just `pid` if the process table can't be read. */
+async function listTree(pid: number): Promise<number[]> {
+  try {
+    return processTree(pid, await listProcesses()).map(p => p.pid);
+  } catch (e) {
+    logError(`Listing the process tree of ${pid} failed; signalling it alone`, e);
+    return [pid];
+  }
+}
+
+function signalAll(groupLeader: number, pids: number[], signal: NodeJS.Signals): void {
+  for (const target of [-groupLeader, ...pids]) {
+    try {
+      process.kill(target, signal);
+    } catch {
+      // Already gone, or not a group leader.
+    }
+  }
+}
+
+/** Whether a process (or, for a negative pid, a process group) exists. */
+function isAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (e: any) {
+    // EPERM: it exists but belongs to someone else.
+    return e.code === 'EPERM';
+  }
+}
+
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    execFile(command, args, { maxBuffer: 16 * 1024 * 1024, timeout: 15_000, windowsHide: true }, (err, stdout) => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve(stdout);
+      }
+    });
+  });
+}
@@ -0,0 +1,156 @@
+/**
+ * Encoding, BOM and line ending detection for files the agent reads and
+ * writes, so round trips through `fs/read_text_file` and
+ * `fs/write_text_file` leave everything but the text itself unchanged.
+ */
+
+export type TextEncodingName = 'utf8' | 'utf16le' | 'utf16be' | 'latin1';
+export type EolStyle = '\n' | '\r\n';
+
+/** How a text file is stored on disk. */
+export interface TextFormat {
+  encoding: TextEncodingName;
+  bom: boolean;
+  eol: EolStyle;
+}
+
+export interface DecodedText {
+  text: string;
+  format: TextFormat;
+}
+
+/** Bytes sniffed for NULs when there is no BOM. */
+const SNIFF_BYTES = 8000;
+
+const BOMS: [TextEncodingName, number[]][] = [
+  ['utf8', [0xef, 0xbb, 0xbf]],
+  ['utf16le', [0xff, 0xfe]],
+  ['utf16be', [0xfe, 0xff]],
+];
+
+/** WHATWG labels for `TextDecoder`; Latin-1 is decoded by `Buffer`. */
+const DECODER_LABELS: Record<Exclude<TextEncodingName, 'latin1'>, string> = {
+  utf8: 'utf-8',
+  utf16le: 'utf-16le',
+  utf16be: 'utf-16be',
+};
+
+/**
+ * The file's encoding, or `binary`. Without a BOM, NUL bytes mean binary
+ * unless they fall on every other byte (BOM-less UTF-16 text); otherwise
+ * the bytes are UTF-8 if they decode as such, and Latin-1 if not.
+ * `complete` is false when `bytes` is only the start of the file.
+ */
+function sniff(bytes: Uint8Array, complete = true): { encoding: TextEncodingName; bom: boolean } | 'binary' {
+  for (const [encoding, bom] of BOMS) {
+    if (bom.every((b, i) => bytes[i] === b)) {
+      return { encoding, bom: true };
+    }
+  }
+
+  const sample = bytes.subarray(0, SNIFF_BYTES);
+  let evenNuls = 0;
+  let oddNuls = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] === 0) {
+      if (i % 2 === 0) { evenNuls++; } else { oddNuls++; }
+    }
+  }
+  if (evenNuls + oddNuls > 0) {
+    const pairs = Math.floor(sample.length / 2);
+    if (evenNuls === 0 && oddNuls > pairs * 0.3) {
+      return { encoding: 'utf16le', bom: false };
+    }
+    if (oddNuls === 0 && evenNuls > pairs * 0.3) {
+      return { encoding: 'utf16be', bom: false };
+    }
+    return 'binary';
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: !complete });
+    return { encoding: 'utf8', bom: false };
+  } catch {
+    return { encoding: 'latin1', bom: false };
+  }
+}
+
+/** Whether the bytes look like a binary (non-text) file. */
+export function isBinary(bytes: Uint8Array): boolean {
+  return sniff(bytes) === 'binary';
+}
+
+/** The dominant line ending of `text`; LF when there are none. */
+export function detectEol(text: string): EolStyle {
+  const crlf = text.match(/\r\n/g)?.length ?? 0;
+  const lf = (text.match(/\n/g)?.length ?? 0) - crlf;
+  return crlf > lf ? '\r\n' : '\n';
+}
+
+/** Convert every line ending in `text` to `eol`. */
+export function normalizeEol(text: string, eol: EolStyle): string {
+  return text.replace(/\r?\n/g, eol);
+}
+
+/** Decode file bytes, detecting encoding, BOM and line endings. Binary data decodes as Latin-1. */
+export function decodeText(bytes: Uint8Array): DecodedText {
+  const sniffed = sniff(bytes);
+  const { encoding, bom } = sniffed === 'binary' ? { encoding: 'latin1' as const, bom: false } : sniffed;
+  const body = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    .subarray(bom ? (encoding === 'utf8' ? 3 : 2) : 0);
+
+  let text: string;
+  if (encoding === 'utf16be') {
+    const swapped = Buffer.from(body.subarray(0, body.length - (body.length % 2)));
+    text = swapped.swap16().toString('utf16le');
+  } else {
+    text = body.toString(encoding);
+  }
+  return { text, format: { encoding, bom, eol: detectEol(text) } };
+}
+
+/** Encode `text` in `format`, converting its line endings to the format's. */
+export function encodeText(text: string, format: TextFormat): Uint8Array {
+  const normalized = normalizeEol(text, format.eol);
+  let body: Buffer;
+  if (format.encoding === 'utf16be') {
+    body = Buffer.from(normalized, 'utf16le').swap16();
+  } else {
+    body = Buffer.from(normalized, format.encoding);
+  }
+  const bom = format.bom ? BOMS.find(([encoding]) => encoding === format.encoding)![1] : [];
+  return Buffer.concat([Buffer.from(bom), body]);
+}
+
+/** Decodes a file read in chunks; see {@link createStreamDecoder}. */
+export interface StreamDecoder {
+  decode(chunk: Uint8Array): string;
+  /** Flush any bytes held back at a character boundary. */
+  end(): string;
+}
+
+/**
+ * A decoder for a file streamed in chunks, with the format sniffed from
+ * `head` (the first chunk), or undefined if the file looks binary. Unlike
+ * {@link decodeText}, invalid UTF-8 after `head` becomes U+FFFD instead
+ * of switching to Latin-1.
+ */
+export function createStreamDecoder(head: Uint8Array): StreamDecoder | undefined {
+  const sniffed = sniff(head, false);
+  if (sniffed === 'binary') {
+    return undefined;
+  }
+  const { encoding } = sniffed;
+  if (encoding === 'latin1') {
+    return {
+      decode: chunk => Buffer.from(chunk.buffer, chunk.byteOffset, chunk.byteLength).toString('latin1'),
+      end: () => '',
+    };
+  }
+  // TextDecoder strips the BOM itself.
+  const decoder = new TextDecoder(DECODER_LABELS[encoding]);
+  return {
+    decode: chunk => decoder.decode(chunk, { stream: true }),
+    end: () => decoder.decode(),
+  };
+}
@@ -15,6 +15,8 @@ const extensionConfig = {
   },
   externals: {
     vscode: 'commonjs vscode',
+    // Native module; shipped in node_modules (see .vscodeignore).
+    '@lydell/node-pty': 'commonjs @lydell/node-pty',
   },
   resolve: {
     extensions: ['.ts', '.js'],